@@ -0,0 +1,97 @@
+/**
+ * Backup history
+ *
+ * "Restore Previous Version..." lists every version of a file kept in the backup store
+ * and writes the chosen one back. The current content is backed up first, so a restore
+ * can itself be undone.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BackupEntry, ConversionEngine, EncodingConverterConfig, formatSize, LogLevel } from './engine';
+
+export const restorePreviousVersionCommand = 'extension.restorePreviousVersion';
+
+/**
+ * Register the restore command
+ */
+export function registerBackupHistory(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void,
+    reopen: (uri: vscode.Uri) => Promise<void>
+): void {
+    /**
+     * One-line description of how a version came to be stored
+     */
+    function describe(entry: BackupEntry): string {
+        if (entry.sourceEncoding && entry.targetEncoding) {
+            return `before ${entry.sourceEncoding.toUpperCase()} -> ${entry.targetEncoding.toUpperCase()}`;
+        }
+        return entry.sourceEncoding ? `${entry.sourceEncoding.toUpperCase()}` : '';
+    }
+
+    const restorePreviousVersion = vscode.commands.registerCommand(
+        restorePreviousVersionCommand,
+        async (uri?: vscode.Uri) => {
+            log('Restore previous version command triggered');
+
+            try {
+                const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+                if (!targetUri || targetUri.scheme !== 'file') {
+                    vscode.window.showErrorMessage('No file selected');
+                    return;
+                }
+
+                const fileName = path.basename(targetUri.fsPath);
+                const versions = await engine.listBackups(targetUri.fsPath);
+                if (versions.length === 0) {
+                    vscode.window.showInformationMessage(`No stored versions of ${fileName}`);
+                    return;
+                }
+
+                const choice = await vscode.window.showQuickPick(
+                    versions.map(entry => ({
+                        label: new Date(entry.timestamp).toLocaleString(),
+                        description: describe(entry),
+                        detail: `${formatSize(entry.size)}, SHA-256 ${entry.hash.slice(0, 12)}`,
+                        entry
+                    })),
+                    {
+                        placeHolder: `${versions.length} stored version(s) of ${fileName}, newest first`,
+                        matchOnDescription: true
+                    }
+                );
+                if (!choice) {
+                    return;
+                }
+
+                const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === targetUri.fsPath);
+                if (document?.isDirty) {
+                    const proceed = await vscode.window.showWarningMessage(
+                        `${fileName} has unsaved changes that will be lost. Restore anyway?`,
+                        { modal: true },
+                        'Restore'
+                    );
+                    if (proceed !== 'Restore') {
+                        return;
+                    }
+                }
+
+                // Keep the current content so the restore can be reverted the same way
+                await engine.restoreBackup(choice.entry, true, getConfig().createBackup);
+
+                if (getConfig().autoReopenFiles) {
+                    await reopen(targetUri);
+                }
+                vscode.window.showInformationMessage(`Restored ${fileName} to the version of ${choice.label}`);
+            } catch (error) {
+                log(`Restore failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`Restore failed: ${error}`);
+            }
+        }
+    );
+
+    context.subscriptions.push(restorePreviousVersion);
+}
@@ -0,0 +1,416 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for the conversion engine
+ *
+ * Same detection, verification and backup behaviour as the extension, for build scripts and CI:
+ *   encoding-converter detect <paths...>
+ *   encoding-converter convert <paths...> [--from <enc>] [--to <enc>]
+ *   encoding-converter check <paths...> [--expect <enc>]
+ *
+ * Exit codes: 0 = ok, 1 = some files failed / did not match (or unexpected error), 2 = usage error
+ */
+
+import * as path from 'path';
+import {
+    BatchConversionResult,
+    ConversionResult,
+    createConversionEngine,
+    createNodeHost,
+    BomPolicy,
+    defaultConfig,
+    EncodingDetection,
+    EncodingRule,
+    EolPolicy,
+    formatSize,
+    isEncodingCompatible,
+    normalizeEncoding,
+    UnmappablePolicy
+} from './engine';
+
+interface CliOptions {
+    command: string;
+    paths: string[];
+    from?: string;
+    to?: string;
+    expect?: string;
+    rules: EncodingRule[];
+    editorConfig: boolean;
+    policy?: UnmappablePolicy;
+    substitute?: string;
+    backup: boolean;
+    backupDir?: string;
+    transactional: boolean;
+    bom?: BomPolicy;
+    eol?: EolPolicy;
+    excludes: string[];
+    includes: string[];
+    gitignore: boolean;
+    streamThreshold?: number;
+    json: boolean;
+    verbose: boolean;
+}
+
+const usage = `Usage: encoding-converter <command> <paths...> [options]
+
+Commands:
+  detect     Print the detected encoding of each file
+  convert    Convert files to the target encoding (backups are created by default)
+  check      Report files that are not in the expected encoding
+
+Options:
+  --from <encoding>       Source encoding for convert (default: auto-detect)
+  --to <encoding>         Target encoding for convert (default: each file's expected encoding)
+  --expect <encoding>     Expected encoding for check (default: the matching rule's target, else the
+                          .editorconfig charset, else utf-8)
+  --rule <glob>=<source>[:<target>]
+                          Declare the encoding of matching files instead of detecting it, may be repeated
+                          (e.g. --rule "legacy/tw/**=big5:utf-8"); globs are relative to the current directory
+  --policy <policy>       Unmappable characters: fail, substitute, escape-unicode, escape-html, transliterate
+  --substitute <char>     Replacement for the substitute/transliterate policies (default: ?)
+  --exclude <glob>        Additional exclude glob, may be repeated (e.g. --exclude "**/dist/**")
+  --include <glob>        Only process files matching this glob, may be repeated
+  --no-gitignore          Also process files ignored by .gitignore
+  --no-editorconfig       Ignore charset settings in .editorconfig files
+  --no-backup             Do not back up original files
+  --bom <policy>          Byte order mark of converted Unicode files: preserve, add, strip (default: preserve)
+  --eol <policy>          Line endings of converted files: keep, lf, crlf, majority (default: keep)
+  --transactional         Convert all files or none: roll back if any file fails or would lose data
+  --backup-dir <dir>      Backup store directory (default: ~/.encoding-converter/backups)
+  --stream-threshold <MB> Convert files of this size or larger in chunks (default: 50, 0 = never)
+  --json                  Print results as JSON
+  --verbose               Log progress to stderr
+  -h, --help              Show this help`;
+
+const policies: UnmappablePolicy[] = ['fail', 'substitute', 'escape-unicode', 'escape-html', 'transliterate'];
+
+class UsageError extends Error {}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        command: '',
+        paths: [],
+        rules: [],
+        editorConfig: true,
+        backup: true,
+        transactional: false,
+        excludes: [],
+        includes: [],
+        gitignore: true,
+        json: false,
+        verbose: false
+    };
+
+    const takeValue = (index: number, flag: string): string => {
+        const value = argv[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new UsageError(`Missing value for ${flag}`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--from':
+                options.from = takeValue(i++, arg);
+                break;
+            case '--to':
+                options.to = takeValue(i++, arg);
+                break;
+            case '--expect':
+                options.expect = takeValue(i++, arg);
+                break;
+            case '--policy': {
+                const policy = takeValue(i++, arg) as UnmappablePolicy;
+                if (!policies.includes(policy)) {
+                    throw new UsageError(`Unknown policy "${policy}", expected one of: ${policies.join(', ')}`);
+                }
+                options.policy = policy;
+                break;
+            }
+            case '--substitute':
+                options.substitute = takeValue(i++, arg);
+                break;
+            case '--rule': {
+                const value = takeValue(i++, arg);
+                const match = /^(.+)=([^:=]+)(?::([^:=]+))?$/.exec(value);
+                if (!match) {
+                    throw new UsageError(`Invalid rule "${value}", expected <glob>=<source>[:<target>]`);
+                }
+                options.rules.push({ pattern: match[1], source: match[2], target: match[3] });
+                break;
+            }
+            case '--exclude':
+                options.excludes.push(takeValue(i++, arg));
+                break;
+            case '--include':
+                options.includes.push(takeValue(i++, arg));
+                break;
+            case '--no-gitignore':
+                options.gitignore = false;
+                break;
+            case '--no-backup':
+                options.backup = false;
+                break;
+            case '--bom': {
+                const bom = takeValue(i++, arg) as BomPolicy;
+                if (!['preserve', 'add', 'strip'].includes(bom)) {
+                    throw new UsageError(`Unknown BOM policy "${bom}", expected one of: preserve, add, strip`);
+                }
+                options.bom = bom;
+                break;
+            }
+            case '--eol': {
+                const eol = takeValue(i++, arg) as EolPolicy;
+                if (!['keep', 'lf', 'crlf', 'majority'].includes(eol)) {
+                    throw new UsageError(`Unknown EOL policy "${eol}", expected one of: keep, lf, crlf, majority`);
+                }
+                options.eol = eol;
+                break;
+            }
+            case '--no-editorconfig':
+                options.editorConfig = false;
+                break;
+            case '--transactional':
+                options.transactional = true;
+                break;
+            case '--backup-dir':
+                options.backupDir = path.resolve(takeValue(i++, arg));
+                break;
+            case '--stream-threshold': {
+                const value = takeValue(i++, arg);
+                const threshold = Number(value);
+                if (!Number.isFinite(threshold) || threshold < 0) {
+                    throw new UsageError(`Invalid stream threshold "${value}", expected a size in MB`);
+                }
+                options.streamThreshold = threshold;
+                break;
+            }
+            case '--json':
+                options.json = true;
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            case '-h':
+            case '--help':
+                options.command = 'help';
+                return options;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                if (!options.command) {
+                    options.command = arg;
+                } else {
+                    options.paths.push(arg);
+                }
+        }
+    }
+
+    if (!['detect', 'convert', 'check'].includes(options.command)) {
+        throw new UsageError(options.command ? `Unknown command: ${options.command}` : 'No command given');
+    }
+    if (options.paths.length === 0) {
+        throw new UsageError('No paths given');
+    }
+    return options;
+}
+
+/**
+ * Print the byte progress of a streamed file to stderr, every tenth
+ */
+function progressPrinter(filePath: string): (bytesProcessed: number, totalBytes: number) => void {
+    let lastTenth = 0;
+    return (bytesProcessed, totalBytes) => {
+        const tenth = Math.floor((bytesProcessed / totalBytes) * 10);
+        if (tenth > lastTenth) {
+            lastTenth = tenth;
+            process.stderr.write(`[INFO] ${path.basename(filePath)}: ${formatSize(bytesProcessed)} of ${formatSize(totalBytes)}\n`);
+        }
+    };
+}
+
+/**
+ * Entry point, returns the process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`${error.message}\n\n${usage}\n`);
+            return 2;
+        }
+        throw error;
+    }
+
+    if (options.command === 'help') {
+        process.stdout.write(`${usage}\n`);
+        return 0;
+    }
+
+    const host = createNodeHost({
+        config: {
+            createBackup: options.backup,
+            backupDirectory: options.backupDir ?? defaultConfig.backupDirectory,
+            bomPolicy: options.bom ?? defaultConfig.bomPolicy,
+            eolPolicy: options.eol ?? defaultConfig.eolPolicy,
+            rules: options.rules,
+            useEditorConfig: options.editorConfig,
+            excludePatterns: [...defaultConfig.excludePatterns, ...options.excludes],
+            includePatterns: options.includes,
+            respectGitignore: options.gitignore,
+            streamingThresholdMB: options.streamThreshold ?? defaultConfig.streamingThresholdMB,
+            unmappablePolicy: options.policy ?? defaultConfig.unmappablePolicy,
+            unmappableSubstitute: options.substitute ?? defaultConfig.unmappableSubstitute
+        },
+        log: options.verbose ? (message, level) => process.stderr.write(`[${level.toUpperCase()}] ${message}\n`) : undefined
+    });
+    const engine = createConversionEngine(host);
+
+    // Expand directories the same way the batch commands do
+    const files: string[] = [];
+    const missing: string[] = [];
+    for (const inputPath of options.paths) {
+        const resolved = path.resolve(inputPath);
+        try {
+            const stat = await host.fs.stat(resolved);
+            if (stat.type === 'directory') {
+                files.push(...await engine.getFilesInDirectory(resolved));
+            } else {
+                files.push(resolved);
+            }
+        } catch (error) {
+            missing.push(inputPath);
+        }
+    }
+    for (const missingPath of missing) {
+        process.stderr.write(`Not found: ${missingPath}\n`);
+    }
+
+    let failed = missing.length > 0;
+
+    if (options.command === 'detect') {
+        const detections: (EncodingDetection & { filePath: string })[] = [];
+        for (const filePath of files) {
+            detections.push({ filePath, ...await engine.detectEncoding(filePath) });
+        }
+        if (options.json) {
+            process.stdout.write(JSON.stringify(detections, null, 2) + '\n');
+        } else {
+            for (const d of detections) {
+                process.stdout.write(`${d.filePath}: ${d.encoding} (${(d.confidence * 100).toFixed(1)}%, ${d.method})\n`);
+                if (options.verbose) {
+                    for (const c of d.candidates ?? []) {
+                        process.stdout.write(`  ${c.encoding} ${c.score.toFixed(3)}: ${c.reasons.join(', ')}\n`);
+                    }
+                }
+            }
+        }
+    } else if (options.command === 'check') {
+        const results: (EncodingDetection & { filePath: string; expected: string; matches: boolean })[] = [];
+        for (const filePath of files) {
+            const detection = await engine.detectEncoding(filePath);
+            const expected = normalizeEncoding(options.expect ?? await engine.expectedEncodingFor(filePath));
+            results.push({ filePath, ...detection, expected, matches: isEncodingCompatible(detection.encoding, expected) });
+        }
+        const mismatches = results.filter(r => !r.matches);
+        failed = failed || mismatches.length > 0;
+        if (options.json) {
+            process.stdout.write(JSON.stringify({ totalFiles: results.length, mismatches: mismatches.length, results }, null, 2) + '\n');
+        } else {
+            for (const r of mismatches) {
+                process.stdout.write(`${r.filePath}: ${r.encoding} (${(r.confidence * 100).toFixed(1)}%, ${r.method}), expected ${r.expected}\n`);
+            }
+            process.stdout.write(`${results.length} file(s) checked, ${mismatches.length} not in the expected encoding\n`);
+        }
+    } else {
+        // The first Ctrl+C stops the running file cleanly and skips the rest, a second one exits at once
+        let interrupted = false;
+        process.once('SIGINT', () => {
+            interrupted = true;
+        });
+        const isCancelled = () => interrupted;
+        
+        let summary: BatchConversionResult;
+        if (options.transactional) {
+            let printer: { filePath: string; print: (bytesProcessed: number, totalBytes: number) => void } | undefined;
+            summary = await engine.convertFilesTransactionally(
+                files, options.from, options.to, undefined, undefined, undefined, isCancelled,
+                options.verbose ? (filePath, bytesProcessed, totalBytes) => {
+                    if (printer?.filePath !== filePath) {
+                        printer = { filePath, print: progressPrinter(filePath) };
+                    }
+                    printer.print(bytesProcessed, totalBytes);
+                } : undefined
+            );
+        } else {
+            const results: ConversionResult[] = [];
+            for (const filePath of files) {
+                if (interrupted) {
+                    break;
+                }
+                const target = options.to ?? await engine.expectedEncodingFor(filePath);
+                results.push(await engine.convertFile(
+                    filePath, options.from, target, undefined, undefined,
+                    options.verbose ? progressPrinter(filePath) : undefined,
+                    isCancelled
+                ));
+            }
+            summary = {
+                totalFiles: files.length,
+                processed: results.length,
+                converted: results.filter(r => r.success && !r.skipped).length,
+                skipped: results.filter(r => r.skipped).length,
+                errors: results.filter(r => !r.success && !r.skipped && !r.lossy).length,
+                lossy: results.filter(r => r.lossy).length,
+                results
+            };
+        }
+        const results = summary.results;
+        failed = failed || interrupted || summary.errors > 0 || summary.lossy > 0 || summary.transaction === 'rolled-back';
+        if (interrupted) {
+            process.stderr.write(`Interrupted after ${summary.processed} of ${files.length} file(s)\n`);
+        }
+        if (options.json) {
+            process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+        } else {
+            for (const r of results) {
+                if (r.success && !r.skipped) {
+                    process.stdout.write(`converted  ${r.filePath}: ${r.originalEncoding} -> ${r.targetEncoding}${r.bomChange ? ` (BOM ${r.bomChange})` : ''}${r.linesChanged ? ` (${r.linesChanged} line ending(s) changed)` : ''}${r.backupCreated ? ` (backup ${r.backupId})` : ''}\n`);
+                } else if (r.skipped) {
+                    process.stdout.write(`skipped    ${r.filePath}: ${r.skipReason}\n`);
+                } else if (r.rolledBack) {
+                    process.stdout.write(`rolled back ${r.filePath}: ${r.originalEncoding} -> ${r.targetEncoding}\n`);
+                } else if (r.lossy) {
+                    process.stdout.write(`lossy      ${r.filePath}: ${r.error}\n`);
+                } else {
+                    process.stdout.write(`failed     ${r.filePath}: ${r.error}\n`);
+                }
+            }
+            process.stdout.write(`Converted: ${summary.converted}, Skipped: ${summary.skipped}, Lossy (not written): ${summary.lossy}, Errors: ${summary.errors}\n`);
+            if (summary.transaction) {
+                process.stdout.write(summary.transaction === 'committed'
+                    ? 'Transaction committed\n'
+                    : `Transaction rolled back, no file was changed: ${summary.rollbackReason}\n`);
+            }
+        }
+    }
+
+    return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`encoding-converter: ${error}\n`);
+        process.exitCode = 1;
+    }
+);
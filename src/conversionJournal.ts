@@ -0,0 +1,250 @@
+/**
+ * Conversion journal
+ *
+ * Every single-file and batch conversion is recorded in workspace state, so it can still be
+ * undone after the result notification is gone or VS Code was restarted. Undo restores the
+ * originals from the backup store and asks before overwriting files edited since.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, ConversionResult, EncodingConverterConfig, LogLevel } from './engine';
+
+export const undoLastOperationCommand = 'extension.undoLastOperation';
+export const showConversionJournalCommand = 'extension.showConversionJournal';
+
+const journalKey = 'encodingConverter.journal';
+
+// Older operations are dropped, their backups stay in the backup store
+const maxJournalEntries = 50;
+
+export interface JournalFile {
+    filePath: string;
+    backupId: string;
+    sourceEncoding?: string;
+    targetEncoding?: string;
+    contentHash?: string; // SHA-256 of what the conversion wrote
+}
+
+export interface JournalEntry {
+    id: string;
+    operation: string;
+    timestamp: number;
+    files: JournalFile[];
+    undoneAt?: number;
+    failedPaths?: string[]; // Files an undo could not restore, the next undo retries only these
+}
+
+export interface ConversionJournal {
+    record(operation: string, results: ConversionResult[]): JournalEntry | undefined;
+    undo(entryId?: string): Promise<boolean>;
+}
+
+/**
+ * Register the journal and its commands
+ */
+export function registerConversionJournal(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void,
+    reopen: (uri: vscode.Uri) => Promise<void>
+): ConversionJournal {
+    let counter = 0;
+
+    function load(): JournalEntry[] {
+        return context.workspaceState.get<JournalEntry[]>(journalKey, []);
+    }
+
+    function save(entries: JournalEntry[]): Thenable<void> {
+        return context.workspaceState.update(journalKey, entries.slice(-maxJournalEntries));
+    }
+
+    /**
+     * Record the files an operation converted, only those with a backup can be undone
+     */
+    function record(operation: string, results: ConversionResult[]): JournalEntry | undefined {
+        const files: JournalFile[] = results
+            .filter(r => r.success && !r.skipped && r.backupId)
+            .map(r => ({
+                filePath: r.filePath,
+                backupId: r.backupId!,
+                sourceEncoding: r.originalEncoding,
+                targetEncoding: r.targetEncoding,
+                contentHash: r.contentHash
+            }));
+        if (files.length === 0) {
+            return undefined;
+        }
+
+        const timestamp = Date.now();
+        const entry: JournalEntry = {
+            id: `${timestamp.toString(36)}-${(counter++).toString(36)}`,
+            operation,
+            timestamp,
+            files
+        };
+        save([...load(), entry]).then(undefined, error => log(`Failed to save journal: ${error}`, 'error'));
+        return entry;
+    }
+
+    function describe(entry: JournalEntry): string {
+        if (entry.files.length === 1) {
+            const file = entry.files[0];
+            return `${path.basename(file.filePath)}: ${file.sourceEncoding?.toUpperCase()} -> ${file.targetEncoding?.toUpperCase()}`;
+        }
+        return `${entry.files.length} files`;
+    }
+
+    /**
+     * Files whose content is no longer what the conversion wrote
+     */
+    async function findEditedFiles(files: JournalFile[]): Promise<Set<string>> {
+        const edited = new Set<string>();
+        for (const file of files) {
+            if (!file.contentHash) {
+                continue;
+            }
+            try {
+                if (await engine.hashFile(file.filePath) !== file.contentHash) {
+                    edited.add(file.filePath);
+                }
+            } catch (error) {
+                // Deleted since, restoring brings it back
+                edited.add(file.filePath);
+            }
+        }
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.isDirty && files.some(f => f.filePath === document.uri.fsPath)) {
+                edited.add(document.uri.fsPath);
+            }
+        }
+        return edited;
+    }
+
+    /**
+     * Undo one operation, the most recent one that is not undone yet by default
+     */
+    async function undo(entryId?: string): Promise<boolean> {
+        const entries = load();
+        const entry = entryId
+            ? entries.find(e => e.id === entryId)
+            : [...entries].reverse().find(e => !e.undoneAt);
+
+        if (!entry) {
+            vscode.window.showInformationMessage('No conversion to undo');
+            return false;
+        }
+        if (entry.undoneAt) {
+            vscode.window.showInformationMessage(`"${entry.operation}" was already undone`);
+            return false;
+        }
+
+        const pending = entry.failedPaths ? entry.files.filter(f => entry.failedPaths!.includes(f.filePath)) : entry.files;
+        let files = pending;
+        const edited = await findEditedFiles(pending);
+
+        if (edited.size > 0) {
+            const names = [...edited].slice(0, 5).map(f => `- ${path.basename(f)}`).join('\n');
+            const more = edited.size > 5 ? `\n... and ${edited.size - 5} more` : '';
+            const choices = edited.size < files.length ? ['Overwrite', 'Skip Edited Files'] : ['Overwrite'];
+            const choice = await vscode.window.showWarningMessage(
+                `${edited.size} file(s) changed after "${entry.operation}":\n${names}${more}\n\nUndoing overwrites these changes.`,
+                { modal: true },
+                ...choices
+            );
+            if (!choice) {
+                return false;
+            }
+            if (choice === 'Skip Edited Files') {
+                files = files.filter(f => !edited.has(f.filePath));
+            }
+        } else if (files.length > 1) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Are you sure you want to undo conversion for ${files.length} files?`,
+                { modal: true },
+                'Yes, Undo All'
+            );
+            if (confirmed !== 'Yes, Undo All') {
+                return false;
+            }
+        }
+
+        const { undone, failedPaths } = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Undoing conversions...',
+            cancellable: false
+        }, async (progress) => {
+            let undone = 0;
+            const failedPaths: string[] = [];
+
+            for (const file of files) {
+                try {
+                    const backup = (await engine.listBackups(file.filePath)).find(b => b.id === file.backupId);
+                    if (!backup) {
+                        throw new Error('backup no longer available');
+                    }
+                    await engine.restoreBackup(backup);
+                    undone++;
+                } catch (error) {
+                    log(`Failed to undo conversion of ${file.filePath}: ${error}`, 'error');
+                    failedPaths.push(file.filePath);
+                }
+
+                progress.report({
+                    message: `Undoing ${path.basename(file.filePath)} (${undone + failedPaths.length}/${files.length})`,
+                    increment: (1 / files.length) * 100
+                });
+            }
+            return { undone, failedPaths };
+        });
+
+        // Undone once every file is restored, skipped files keep their edits; failed ones stay for a retry
+        const failed = failedPaths.length;
+        await save(load().map(e => e.id !== entry.id
+            ? e
+            : failed > 0 ? { ...e, failedPaths } : { ...e, failedPaths: undefined, undoneAt: Date.now() }));
+        log(`Undone "${entry.operation}": ${undone} restored, ${failed} failed, ${pending.length - files.length} skipped`);
+
+        if (entry.files.length === 1 && undone === 1 && getConfig().autoReopenFiles) {
+            await reopen(vscode.Uri.file(entry.files[0].filePath));
+        }
+
+        const summary = entry.files.length === 1 && failed === 0
+            ? `Conversion undone: ${path.basename(entry.files[0].filePath)}`
+            : `Undo completed. Restored: ${undone}, Failed: ${failed}`;
+        if (failed > 0) {
+            vscode.window.showWarningMessage(summary);
+        } else {
+            vscode.window.showInformationMessage(summary);
+        }
+        return failed === 0;
+    }
+
+    const undoLast = vscode.commands.registerCommand(undoLastOperationCommand, () => undo());
+
+    const showJournal = vscode.commands.registerCommand(showConversionJournalCommand, async () => {
+        const entries = load();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No conversions recorded in this workspace');
+            return;
+        }
+
+        const choice = await vscode.window.showQuickPick(
+            [...entries].reverse().map(entry => ({
+                label: `${entry.undoneAt ? '$(discard)' : '$(history)'} ${entry.operation}`,
+                description: `${new Date(entry.timestamp).toLocaleString()}${entry.undoneAt ? ' (undone)' : entry.failedPaths ? ` (${entry.failedPaths.length} file(s) left to undo)` : ''}`,
+                detail: describe(entry),
+                entry
+            })),
+            { placeHolder: 'Select a conversion to undo', matchOnDetail: true }
+        );
+        if (choice) {
+            await undo(choice.entry.id);
+        }
+    });
+
+    context.subscriptions.push(undoLast, showJournal);
+
+    return { record, undo };
+}
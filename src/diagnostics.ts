@@ -0,0 +1,192 @@
+/**
+ * Workspace encoding diagnostics
+ *
+ * Scans workspace files in the background and reports every file that is not in the
+ * expected encoding in the Problems panel, with a quick fix that converts it.
+ * Files are re-checked individually as they are created or changed.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, EncodingConverterConfig, isEncodingCompatible, LogLevel } from './engine';
+
+export const diagnosticSource = 'Encoding Converter';
+export const encodingMismatchCode = 'encoding-mismatch';
+
+// Command the quick fix runs, registered by the extension
+export const convertToExpectedEncodingCommand = 'extension.convertToExpectedEncoding';
+
+// Detection reads the whole file, so very large files are left to the explicit commands
+const maxScanFileSize = 10 * 1024 * 1024;
+
+export interface EncodingDiagnostics {
+    checkFile(uri: vscode.Uri): Promise<void>;
+    rescan(): Promise<void>;
+}
+
+/**
+ * Register the diagnostic collection, file watcher and quick fix provider
+ */
+export function registerEncodingDiagnostics(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void
+): EncodingDiagnostics {
+    const collection = vscode.languages.createDiagnosticCollection('encoding-converter');
+    const pendingChecks = new Map<string, NodeJS.Timeout>();
+
+    // Bumped on every rescan so an outdated scan stops publishing
+    let scanGeneration = 0;
+
+    /**
+     * Detect one file and publish or clear its diagnostic
+     */
+    async function checkFile(uri: vscode.Uri): Promise<void> {
+        const config = getConfig();
+        if (!config.diagnosticsEnabled || uri.scheme !== 'file') {
+            return;
+        }
+
+        if (!engine.shouldProcessFile(uri.fsPath, config).shouldProcess) {
+            collection.delete(uri);
+            return;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type !== vscode.FileType.File || stat.size === 0 || stat.size > maxScanFileSize) {
+                collection.delete(uri);
+                return;
+            }
+        } catch (error) {
+            // File is gone
+            collection.delete(uri);
+            return;
+        }
+
+        const detection = await engine.detectEncoding(uri.fsPath);
+        const expectedEncoding = await engine.expectedEncodingFor(uri.fsPath);
+        if (isEncodingCompatible(detection.encoding, expectedEncoding)) {
+            collection.delete(uri);
+            return;
+        }
+
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(0, 0, 0, 0),
+            `File is encoded as ${detection.encoding.toUpperCase()} (${(detection.confidence * 100).toFixed(1)}% confidence, ${detection.method}), expected ${expectedEncoding.toUpperCase()}`,
+            detection.confidence >= 0.7 ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.source = diagnosticSource;
+        diagnostic.code = encodingMismatchCode;
+        collection.set(uri, [diagnostic]);
+    }
+
+    /**
+     * Re-check a file shortly after it changes, saves often come in bursts
+     */
+    function scheduleCheck(uri: vscode.Uri) {
+        const key = uri.toString();
+        const pending = pendingChecks.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        pendingChecks.set(key, setTimeout(() => {
+            pendingChecks.delete(key);
+            checkFile(uri).catch(error => log(`Diagnostics check failed for ${uri.fsPath}: ${error}`, 'warn'));
+        }, 500));
+    }
+
+    /**
+     * Scan the whole workspace, files.exclude is honoured by findFiles
+     */
+    async function rescan(): Promise<void> {
+        const generation = ++scanGeneration;
+        collection.clear();
+
+        if (!getConfig().diagnosticsEnabled) {
+            return;
+        }
+
+        const files = await vscode.workspace.findFiles('**/*');
+        log(`Diagnostics: scanning ${files.length} workspace files`);
+
+        let reported = 0;
+        for (const file of files) {
+            if (generation !== scanGeneration) {
+                return;
+            }
+            try {
+                await checkFile(file);
+                if (collection.has(file)) {
+                    reported++;
+                }
+            } catch (error) {
+                log(`Diagnostics check failed for ${file.fsPath}: ${error}`, 'warn');
+            }
+        }
+
+        log(`Diagnostics: ${reported} file(s) not in their expected encoding`);
+    }
+
+    /**
+     * An .editorconfig can change the expected encoding of every file below it
+     */
+    function onFileChanged(uri: vscode.Uri): void {
+        if (path.basename(uri.fsPath) === '.editorconfig') {
+            rescan().catch(error => log(`Diagnostics rescan failed: ${error}`, 'warn'));
+        } else {
+            scheduleCheck(uri);
+        }
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    watcher.onDidCreate(onFileChanged);
+    watcher.onDidChange(onFileChanged);
+    watcher.onDidDelete(uri => path.basename(uri.fsPath) === '.editorconfig' ? onFileChanged(uri) : collection.delete(uri));
+
+    const quickFixProvider: vscode.CodeActionProvider = {
+        async provideCodeActions(document, _range, codeActionContext) {
+            const diagnostics = codeActionContext.diagnostics
+                .filter(d => d.source === diagnosticSource && d.code === encodingMismatchCode);
+            if (diagnostics.length === 0) {
+                return [];
+            }
+            const expected = (await engine.expectedEncodingFor(document.uri.fsPath)).toUpperCase();
+            return diagnostics
+                .map(d => {
+                    const action = new vscode.CodeAction(`Convert ${path.basename(document.uri.fsPath)} to ${expected}`, vscode.CodeActionKind.QuickFix);
+                    action.diagnostics = [d];
+                    action.isPreferred = true;
+                    action.command = {
+                        command: convertToExpectedEncodingCommand,
+                        title: `Convert to ${expected}`,
+                        arguments: [document.uri]
+                    };
+                    return action;
+                });
+        }
+    };
+
+    context.subscriptions.push(
+        collection,
+        watcher,
+        vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, quickFixProvider, {
+            providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('encodingConverter')) {
+                rescan().catch(error => log(`Diagnostics scan failed: ${error}`, 'error'));
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            rescan().catch(error => log(`Diagnostics scan failed: ${error}`, 'error'));
+        }),
+        { dispose: () => pendingChecks.forEach(timer => clearTimeout(timer)) }
+    );
+
+    // Initial scan runs in the background, activation must not wait for it
+    rescan().catch(error => log(`Diagnostics scan failed: ${error}`, 'error'));
+
+    return { checkFile, rescan };
+}
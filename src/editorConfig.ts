@@ -0,0 +1,209 @@
+/**
+ * EditorConfig integration
+ *
+ * "Check against .editorconfig" lists files whose detected encoding differs from the charset
+ * their .editorconfig declares. After a folder was converted, the charset entry of the folder's
+ * .editorconfig can be written or updated so the declaration matches the files.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    BatchConversionResult,
+    ConversionEngine,
+    EncodingConverterConfig,
+    isEncodingCompatible,
+    LogLevel,
+    toEditorConfigCharset
+} from './engine';
+
+export const checkEditorConfigCommand = 'extension.checkEditorConfig';
+
+export interface EditorConfigViolation {
+    uri: vscode.Uri;
+    detected: string;
+    confidence: number;
+    declared: string;
+}
+
+export interface EditorConfigIntegration {
+    offerCharsetEntry(folder: vscode.Uri, encoding: string, result: BatchConversionResult): Promise<void>;
+}
+
+/**
+ * Register the check command
+ * convertToDeclared converts files to their declared charset with the regular batch flow
+ */
+export function registerEditorConfig(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void,
+    convertToDeclared: (files: vscode.Uri[]) => Promise<void>
+): EditorConfigIntegration {
+    /**
+     * Detect every file that declares a charset and collect those that do not match it
+     */
+    async function findViolations(files: string[]): Promise<EditorConfigViolation[] | undefined> {
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checking against .editorconfig',
+            cancellable: true
+        }, async (progress, token) => {
+            const violations: EditorConfigViolation[] = [];
+            let checked = 0;
+            for (const filePath of files) {
+                if (token.isCancellationRequested) {
+                    log('EditorConfig check cancelled by user', 'warn');
+                    return undefined;
+                }
+                const declared = await engine.editorConfigCharset(filePath);
+                if (declared) {
+                    const detection = await engine.detectEncoding(filePath);
+                    if (!isEncodingCompatible(detection.encoding, declared)) {
+                        violations.push({
+                            uri: vscode.Uri.file(filePath),
+                            detected: detection.encoding,
+                            confidence: detection.confidence,
+                            declared
+                        });
+                    }
+                }
+                checked++;
+                progress.report({
+                    message: `${path.basename(filePath)} (${checked}/${files.length})`,
+                    increment: (1 / files.length) * 100
+                });
+            }
+            return violations;
+        });
+    }
+
+    const checkEditorConfig = vscode.commands.registerCommand(
+        checkEditorConfigCommand,
+        async (uri?: vscode.Uri) => {
+            log('Check against .editorconfig command triggered');
+
+            try {
+                if (!getConfig().useEditorConfig) {
+                    vscode.window.showWarningMessage('EditorConfig support is disabled (encodingConverter.editorconfig.enabled)');
+                    return;
+                }
+
+                let rootUri = uri;
+                if (!rootUri) {
+                    const folders = vscode.workspace.workspaceFolders || [];
+                    if (folders.length === 0) {
+                        vscode.window.showErrorMessage('Open a folder or workspace to check');
+                        return;
+                    }
+                    if (folders.length === 1) {
+                        rootUri = folders[0].uri;
+                    } else {
+                        const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to check' });
+                        if (!folder) {
+                            return;
+                        }
+                        rootUri = folder.uri;
+                    }
+                }
+
+                const stat = await vscode.workspace.fs.stat(rootUri);
+                const files = stat.type === vscode.FileType.Directory
+                    ? await engine.getFilesInDirectory(rootUri.fsPath)
+                    : [rootUri.fsPath];
+
+                const violations = await findViolations(files);
+                if (!violations) {
+                    return;
+                }
+                log(`EditorConfig check: ${violations.length} of ${files.length} file(s) violate their declared charset`);
+                for (const v of violations) {
+                    log(`  ${v.uri.fsPath}: ${v.detected.toUpperCase()}, declared ${v.declared.toUpperCase()}`);
+                }
+
+                if (violations.length === 0) {
+                    vscode.window.showInformationMessage(`All ${files.length} checked file(s) match their .editorconfig charset`);
+                    return;
+                }
+
+                const choice = await vscode.window.showWarningMessage(
+                    `${violations.length} file(s) are not in the charset their .editorconfig declares`,
+                    'Show Files',
+                    'Convert All'
+                );
+                if (choice === 'Convert All') {
+                    await convertToDeclared(violations.map(v => v.uri));
+                } else if (choice === 'Show Files') {
+                    const selected = await vscode.window.showQuickPick(
+                        violations.map(v => ({
+                            label: path.basename(v.uri.fsPath),
+                            description: `${v.detected.toUpperCase()} (${(v.confidence * 100).toFixed(1)}%), declared ${v.declared.toUpperCase()}`,
+                            detail: vscode.workspace.asRelativePath(v.uri),
+                            violation: v
+                        })),
+                        { placeHolder: 'Select a file to open', matchOnDetail: true }
+                    );
+                    if (selected) {
+                        await vscode.window.showTextDocument(selected.violation.uri);
+                    }
+                }
+            } catch (error) {
+                log(`EditorConfig check failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`EditorConfig check failed: ${error}`);
+            }
+        }
+    );
+
+    /**
+     * After a folder was converted, write its charset to the folder's .editorconfig
+     * Follows the editorconfig.writeCharset setting, nothing happens when the declaration already matches
+     */
+    async function offerCharsetEntry(folder: vscode.Uri, encoding: string, result: BatchConversionResult): Promise<void> {
+        const config = getConfig();
+        const charset = toEditorConfigCharset(encoding);
+        if (!config.useEditorConfig || config.editorConfigWriteCharset === 'never' || !charset) {
+            return;
+        }
+        if (result.transaction === 'rolled-back' || result.converted === 0) {
+            return;
+        }
+
+        // Only offer when some converted file is declared differently, or not at all
+        const converted = result.results.filter(r => r.success && !r.skipped);
+        let outdated = false;
+        for (const r of converted) {
+            const declared = await engine.editorConfigCharset(r.filePath);
+            if (!declared || toEditorConfigCharset(declared) !== charset) {
+                outdated = true;
+                break;
+            }
+        }
+        if (!outdated) {
+            return;
+        }
+
+        if (config.editorConfigWriteCharset === 'ask') {
+            const choice = await vscode.window.showInformationMessage(
+                `Set "charset = ${charset}" in ${path.basename(folder.fsPath)}/.editorconfig?`,
+                'Write',
+                'Not Now'
+            );
+            if (choice !== 'Write') {
+                return;
+            }
+        }
+
+        try {
+            const configPath = await engine.writeEditorConfigCharset(folder.fsPath, encoding);
+            vscode.window.showInformationMessage(`Updated ${vscode.workspace.asRelativePath(configPath)}: charset = ${charset}`);
+        } catch (error) {
+            log(`Failed to write .editorconfig: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Failed to write .editorconfig: ${error}`);
+        }
+    }
+
+    context.subscriptions.push(checkEditorConfig);
+
+    return { offerCharsetEntry };
+}
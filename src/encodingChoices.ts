@@ -0,0 +1,120 @@
+/**
+ * Encoding choices for the source and target pickers
+ *
+ * Every encoding the engine can convert is offered, grouped by region, with its aliases as the
+ * description so "latin1" or "cp932" finds the right entry. Favourite encodings from the settings
+ * are pinned on top, followed by the ones used most recently.
+ */
+
+import * as vscode from 'vscode';
+import { encodingCatalogue, EncodingConverterConfig, findEncoding, LogLevel, splitBomEncoding } from './engine';
+
+// globalState key of the recently used encodings, most recent first
+const recentKey = 'recentEncodings';
+
+// Pseudo-encoding offered after UTF-8, the engine writes the BOM itself
+const utf8WithBom = 'utf-8 with bom';
+
+/**
+ * A picker entry, encoding is undefined for entries that are not an encoding such as "Auto-detect"
+ */
+export interface EncodingItem extends vscode.QuickPickItem {
+    encoding?: string;
+}
+
+export interface EncodingChoices {
+    items(): EncodingItem[];
+    labelFor(encoding: string): string;
+    keyFor(encoding: string): string;
+    remember(encoding: string): Promise<void>;
+}
+
+/**
+ * Register the recently used list, returns the picker entries
+ */
+export function registerEncodingChoices(
+    context: vscode.ExtensionContext,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void
+): EncodingChoices {
+    /**
+     * Display name of an encoding, its catalogue label where there is one
+     */
+    function labelFor(encoding: string): string {
+        const { encoding: base, withBOM } = splitBomEncoding(encoding);
+        const label = findEncoding(base)?.label ?? base.toUpperCase();
+        return withBOM ? `${label} with BOM` : label;
+    }
+
+    /**
+     * Catalogue name of an encoding, with the BOM variant kept apart from plain UTF-8
+     */
+    function keyFor(encoding: string): string {
+        const { encoding: base, withBOM } = splitBomEncoding(encoding);
+        const name = findEncoding(base)?.name ?? base.toLowerCase();
+        return withBOM ? `${name} with bom` : name;
+    }
+
+    function itemFor(encoding: string): EncodingItem {
+        const key = keyFor(encoding);
+        if (key === utf8WithBom) {
+            return { label: labelFor(key), description: 'UTF-8 with byte order mark', encoding: key };
+        }
+        const entry = findEncoding(key);
+        return {
+            label: labelFor(key),
+            description: entry ? entry.aliases.join(', ') : 'Not in the catalogue',
+            encoding: key
+        };
+    }
+
+    function separator(label: string): EncodingItem {
+        return { label, kind: vscode.QuickPickItemKind.Separator };
+    }
+
+    function items(): EncodingItem[] {
+        const config = getConfig();
+        const favorites = [...new Set(config.favoriteEncodings.map(keyFor))];
+        const recent = context.globalState.get<string[]>(recentKey, [])
+            .filter(encoding => !favorites.includes(encoding))
+            .slice(0, config.recentEncodingCount);
+        const pinned = new Set([...favorites, ...recent]);
+
+        const result: EncodingItem[] = [];
+        if (favorites.length > 0) {
+            result.push(separator('Favorites'), ...favorites.map(itemFor));
+        }
+        if (recent.length > 0) {
+            result.push(separator('Recently used'), ...recent.map(itemFor));
+        }
+        let region = '';
+        for (const entry of encodingCatalogue) {
+            const names = entry.name === 'utf-8' ? [entry.name, utf8WithBom] : [entry.name];
+            for (const name of names.filter(name => !pinned.has(name))) {
+                if (entry.region !== region) {
+                    region = entry.region;
+                    result.push(separator(region));
+                }
+                result.push(itemFor(name));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Put an encoding at the top of the recently used list
+     */
+    async function remember(encoding: string): Promise<void> {
+        const key = keyFor(encoding);
+        const recent = context.globalState.get<string[]>(recentKey, []).filter(existing => existing !== key);
+        // Kept a little longer than shown, favourites hide their entries from the list
+        const kept = [key, ...recent].slice(0, getConfig().recentEncodingCount + getConfig().favoriteEncodings.length);
+        try {
+            await context.globalState.update(recentKey, kept);
+        } catch (error) {
+            log(`Failed to remember encoding ${key}: ${error}`, 'warn');
+        }
+    }
+
+    return { items, labelFor, keyFor, remember };
+}
@@ -0,0 +1,131 @@
+/**
+ * Source encoding picker with live previews
+ *
+ * Lists the plausible encodings of a file, each with the first lines it decodes to and the
+ * number of bytes it cannot decode. Moving through the list shows the decoded text beside
+ * the editor, so the right encoding can be recognised by eye.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, EncodingPreview, LogLevel } from './engine';
+
+// Virtual documents showing one candidate's decoded text
+const candidateScheme = 'encoding-converter-candidate';
+
+/**
+ * Register the preview documents, returns the picker
+ * The picker resolves to the chosen encoding, or undefined if cancelled
+ */
+export function registerEncodingPicker(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    log: (message: string, level?: LogLevel) => void
+): { pick(uri: vscode.Uri): Promise<string | undefined> } {
+    const contents = new Map<string, string>();
+    let counter = 0;
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(candidateScheme, {
+            provideTextDocumentContent: (uri: vscode.Uri) => contents.get(uri.toString()) ?? ''
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === candidateScheme) {
+                contents.delete(document.uri.toString());
+            }
+        })
+    );
+
+    /**
+     * Short verdict on how well a candidate decodes
+     */
+    function describe(preview: EncodingPreview): string {
+        const decoding = preview.replacementCharacters > 0
+            ? `$(warning) ${preview.replacementCharacters} undecodable sequence(s)`
+            : 'decodes cleanly';
+        return `${(preview.score * 100).toFixed(0)}%, ${decoding}`;
+    }
+
+    /**
+     * Show a candidate's decoded text beside the editor, keeping the focus in the picker
+     */
+    async function showPreview(uri: vscode.Uri, preview: EncodingPreview): Promise<void> {
+        // A fresh query per preview so VS Code never shows a cached document
+        counter++;
+        const previewUri = uri.with({ scheme: candidateScheme, query: `${preview.encoding}-${counter}` });
+        contents.set(previewUri.toString(), [
+            `${path.basename(uri.fsPath)} decoded as ${preview.encoding.toUpperCase()}: ${describe(preview).replace('$(warning) ', '')}`,
+            `Evidence: ${preview.reasons.join(', ')}`,
+            '',
+            ...preview.lines
+        ].join('\n'));
+        const document = await vscode.workspace.openTextDocument(previewUri);
+        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true, preserveFocus: true });
+    }
+
+    /**
+     * Close any candidate previews that are still open
+     */
+    async function closePreviews(): Promise<void> {
+        const previewTabs = vscode.window.tabGroups.all.flatMap(group =>
+            group.tabs.filter(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === candidateScheme)
+        );
+        if (previewTabs.length > 0) {
+            await vscode.window.tabGroups.close(previewTabs);
+        }
+    }
+
+    async function pick(uri: vscode.Uri): Promise<string | undefined> {
+        const previews = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Decoding candidate encodings...'
+        }, () => engine.previewEncodings(uri.fsPath));
+
+        if (previews.length === 0) {
+            vscode.window.showWarningMessage(`${path.basename(uri.fsPath)} looks like a binary file, it has no text encoding`);
+            return undefined;
+        }
+        log(`Encoding candidates for ${path.basename(uri.fsPath)}: ${previews.map(p => `${p.encoding} (${p.replacementCharacters} undecodable)`).join(', ')}`);
+
+        const items = previews.map(preview => ({
+            label: preview.encoding.toUpperCase(),
+            description: describe(preview),
+            detail: preview.lines[0] ?? '(no text)',
+            preview
+        }));
+
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.title = `Source encoding of ${path.basename(uri.fsPath)}`;
+        quickPick.placeholder = 'Move through the candidates to preview the decoded text, press Enter to convert from the chosen one';
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = items;
+
+        const chosen = await new Promise<string | undefined>(resolve => {
+            let accepted = false;
+            quickPick.onDidChangeActive(active => {
+                if (active.length > 0) {
+                    showPreview(uri, active[0].preview).catch(error => log(`Preview failed: ${error}`, 'warn'));
+                }
+            });
+            quickPick.onDidAccept(() => {
+                const selection = quickPick.selectedItems[0] ?? quickPick.activeItems[0];
+                accepted = true;
+                resolve(selection?.preview.encoding);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                if (!accepted) {
+                    resolve(undefined);
+                }
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+
+        await closePreviews();
+        return chosen;
+    }
+
+    return { pick };
+}
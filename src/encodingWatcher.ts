@@ -0,0 +1,140 @@
+/**
+ * Encoding watcher
+ *
+ * Opt-in: detects files as they are opened or saved and, when one is not in its expected encoding,
+ * offers to convert it, reopen it in the detected encoding, or stop asking for the file or its folder.
+ * Files matching the auto-convert globs are converted without asking, with the usual backup and Undo.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, EncodingConverterConfig, isEncodingCompatible, LogLevel } from './engine';
+import { convertToExpectedEncodingCommand } from './diagnostics';
+import { reopenWithEncodingPicker } from './statusBar';
+
+export const forgetIgnoredFilesCommand = 'extension.forgetWatcherIgnores';
+
+// workspaceState key of the files and folders the watcher no longer asks about
+const ignoredKey = 'watcherIgnored';
+
+// Below this confidence files are never converted unattended, only offered
+const autoConvertConfidence = 0.7;
+
+interface IgnoredPaths {
+    files: string[];
+    folders: string[];
+}
+
+/**
+ * Register the open and save listeners
+ */
+export function registerEncodingWatcher(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void
+): void {
+    // Files being checked or waiting for an answer, a save while the prompt is open must not ask twice
+    const busy = new Set<string>();
+    // Prompts closed without an answer, not repeated until the window reloads
+    const dismissed = new Set<string>();
+
+    function ignored(): IgnoredPaths {
+        return context.workspaceState.get<IgnoredPaths>(ignoredKey, { files: [], folders: [] });
+    }
+
+    function isIgnored(filePath: string): boolean {
+        const { files, folders } = ignored();
+        return files.includes(filePath) || folders.some(folder => filePath.startsWith(folder + path.sep));
+    }
+
+    async function ignore(kind: keyof IgnoredPaths, fsPath: string): Promise<void> {
+        const current = ignored();
+        await context.workspaceState.update(ignoredKey, { ...current, [kind]: [...current[kind], fsPath] });
+        log(`Watcher: no longer asking about ${kind === 'files' ? 'file' : 'folder'} ${fsPath}`);
+    }
+
+    /**
+     * Detect a document's file and convert it or ask about it
+     */
+    async function check(document: vscode.TextDocument): Promise<void> {
+        const config = getConfig();
+        const { uri } = document;
+        const filePath = uri.fsPath;
+        if (!config.watcherEnabled || uri.scheme !== 'file' || busy.has(filePath) || dismissed.has(filePath) || isIgnored(filePath)) {
+            return;
+        }
+        if (!engine.shouldProcessFile(filePath, config).shouldProcess) {
+            return;
+        }
+
+        busy.add(filePath);
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.size === 0) {
+                return;
+            }
+            const detection = await engine.detectEncoding(filePath);
+            const expectedEncoding = await engine.expectedEncodingFor(filePath);
+            if (detection.encoding === 'binary' || isEncodingCompatible(detection.encoding, expectedEncoding)) {
+                return;
+            }
+
+            const fileName = path.basename(filePath);
+            const detected = detection.encoding.toUpperCase();
+            const expected = expectedEncoding.toUpperCase();
+            if (detection.confidence >= autoConvertConfidence && engine.matchesWorkspaceGlob(filePath, config.watcherAutoConvert)) {
+                log(`Watcher: converting ${fileName} from ${detected} to ${expected} (auto-convert)`);
+                await vscode.commands.executeCommand(convertToExpectedEncodingCommand, uri);
+                return;
+            }
+
+            const convert = `Convert to ${expected}`;
+            const reopen = `Reopen as ${detected}`;
+            const choice = await vscode.window.showInformationMessage(
+                `${fileName} looks like ${detected} (${(detection.confidence * 100).toFixed(0)}% confidence, ${detection.method})`,
+                convert,
+                reopen,
+                'Ignore File',
+                'Ignore Folder'
+            );
+            switch (choice) {
+                case convert:
+                    await vscode.commands.executeCommand(convertToExpectedEncodingCommand, uri);
+                    break;
+                case reopen:
+                    // Saved in the detected encoding the file still mismatches, asking on every save would nag
+                    dismissed.add(filePath);
+                    await reopenWithEncodingPicker(uri, detected);
+                    break;
+                case 'Ignore File':
+                    await ignore('files', filePath);
+                    break;
+                case 'Ignore Folder':
+                    await ignore('folders', path.dirname(filePath));
+                    break;
+                default:
+                    dismissed.add(filePath);
+            }
+        } finally {
+            busy.delete(filePath);
+        }
+    }
+
+    const checkInBackground = (document: vscode.TextDocument) => {
+        check(document).catch(error => log(`Watcher check failed for ${document.uri.fsPath}: ${error}`, 'warn'));
+    };
+
+    const forgetIgnored = vscode.commands.registerCommand(forgetIgnoredFilesCommand, async () => {
+        const { files, folders } = ignored();
+        await context.workspaceState.update(ignoredKey, undefined);
+        dismissed.clear();
+        vscode.window.showInformationMessage(`The encoding watcher asks again about ${files.length} file(s) and ${folders.length} folder(s)`);
+    });
+
+    context.subscriptions.push(
+        forgetIgnored,
+        vscode.workspace.onDidOpenTextDocument(checkInBackground),
+        vscode.workspace.onDidSaveTextDocument(checkInBackground)
+    );
+}
@@ -0,0 +1,308 @@
+/**
+ * Central backup store
+ * Keeps original file contents outside the workspace, with a manifest recording
+ * where each version came from. Contents are stored once per hash.
+ */
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { copyStream } from './streaming';
+import { BackupEntry, BackupRetention, EngineFileSystem, LogLevel } from './types';
+
+export interface BackupStore {
+    add(filePath: string, content: Uint8Array, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry>;
+    addFile(filePath: string, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry>; // Streams, needs fs.readStream and fs.writeStream
+    list(filePath?: string): Promise<BackupEntry[]>;
+    read(entry: BackupEntry): Promise<Uint8Array>;
+    copyTo(entry: BackupEntry, destPath: string): Promise<void>; // Streams, needs fs.readStream and fs.writeStream
+    remove(entry: BackupEntry): Promise<void>;
+    prune(): Promise<number>;
+}
+
+interface Manifest {
+    version: 1;
+    entries: BackupEntry[];
+}
+
+const manifestName = 'manifest.json';
+const objectsDir = 'objects';
+
+/**
+ * SHA-256 of file content, as recorded in the manifest
+ */
+export function hashContent(content: Uint8Array): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Create a backup store rooted at a directory
+ * The directory is resolved on every call so a changed setting takes effect immediately
+ */
+export function createBackupStore(
+    fs: EngineFileSystem,
+    getDirectory: () => string,
+    getRetention: () => BackupRetention,
+    log: (message: string, level?: LogLevel) => void
+): BackupStore {
+    // Manifest updates are serialized, batch conversions back up files concurrently
+    let queue: Promise<unknown> = Promise.resolve();
+    let counter = 0;
+
+    function serialize<T>(task: () => Promise<T>): Promise<T> {
+        const run = queue.then(task, task);
+        queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Read the manifest, empty only when there is none yet
+     * A manifest that cannot be read or parsed fails the operation, saving over it would lose every version
+     */
+    async function loadManifest(directory: string): Promise<Manifest> {
+        const manifestPath = path.join(directory, manifestName);
+        try {
+            await fs.stat(manifestPath);
+        } catch (error) {
+            return { version: 1, entries: [] };
+        }
+        let manifest: Manifest;
+        try {
+            manifest = JSON.parse(Buffer.from(await fs.readFile(manifestPath)).toString('utf8')) as Manifest;
+        } catch (error) {
+            log(`Backup manifest ${manifestPath} is unreadable: ${error}`, 'error');
+            throw new Error(`The backup manifest ${manifestPath} is damaged (${error}), repair or move it aside before backing up again`);
+        }
+        return { version: 1, entries: Array.isArray(manifest.entries) ? manifest.entries : [] };
+    }
+
+    /**
+     * Write the manifest to a temporary file and rename it into place, a crash never leaves it truncated
+     */
+    async function saveManifest(directory: string, manifest: Manifest): Promise<void> {
+        const manifestPath = path.join(directory, manifestName);
+        const tempPath = `${manifestPath}.${Date.now().toString(36)}${(counter++).toString(36)}.tmp`;
+        try {
+            await fs.writeFile(tempPath, Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'));
+            await fs.rename(tempPath, manifestPath);
+        } catch (error) {
+            await fs.delete(tempPath).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    function objectPath(directory: string, hash: string): string {
+        return path.join(directory, objectsDir, hash);
+    }
+
+    /**
+     * Delete stored contents no entry refers to any more
+     */
+    async function collectGarbage(directory: string, manifest: Manifest, removed: BackupEntry[]): Promise<void> {
+        const referenced = new Set(manifest.entries.map(e => e.hash));
+        for (const hash of new Set(removed.map(e => e.hash))) {
+            if (referenced.has(hash)) {
+                continue;
+            }
+            try {
+                await fs.delete(objectPath(directory, hash));
+            } catch (error) {
+                log(`Failed to delete backup content ${hash}: ${error}`, 'warn');
+            }
+        }
+    }
+
+    /**
+     * Apply the retention limits, returns the removed entries
+     * The newest version of each file survives the age and size limits
+     */
+    function applyRetention(manifest: Manifest, retention: BackupRetention): BackupEntry[] {
+        // Entries are appended in order, reversing first keeps later ones first on equal timestamps
+        const newestFirst = [...manifest.entries].reverse().sort((a, b) => b.timestamp - a.timestamp);
+        const newestPerFile = new Set<string>();
+        const newestIds = new Set<string>();
+        const keptPerFile = new Map<string, number>();
+        const cutoff = retention.maxAgeDays > 0 ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+        const kept: BackupEntry[] = [];
+        const removed: BackupEntry[] = [];
+
+        for (const entry of newestFirst) {
+            const count = keptPerFile.get(entry.originalPath) || 0;
+            const isNewest = !newestPerFile.has(entry.originalPath);
+            if (isNewest) {
+                newestPerFile.add(entry.originalPath);
+                newestIds.add(entry.id);
+            }
+
+            if ((retention.maxVersionsPerFile > 0 && count >= retention.maxVersionsPerFile) || (!isNewest && entry.timestamp < cutoff)) {
+                removed.push(entry);
+            } else {
+                keptPerFile.set(entry.originalPath, count + 1);
+                kept.push(entry);
+            }
+        }
+
+        // Drop the oldest versions until the stored contents fit, identical contents count once
+        const maxBytes = retention.maxTotalSizeMB * 1024 * 1024;
+        if (maxBytes > 0) {
+            const sizes = new Map(kept.map(e => [e.hash, e.size]));
+            let total = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+            for (let i = kept.length - 1; i >= 0 && total > maxBytes; i--) {
+                const entry = kept[i];
+                if (newestIds.has(entry.id)) {
+                    continue;
+                }
+                kept.splice(i, 1);
+                removed.push(entry);
+                if (!kept.some(e => e.hash === entry.hash)) {
+                    total -= entry.size;
+                }
+            }
+        }
+
+        manifest.entries = kept.sort((a, b) => a.timestamp - b.timestamp);
+        return removed;
+    }
+
+    /**
+     * Record a stored content in the manifest and apply retention, must run serialized
+     */
+    async function record(
+        directory: string,
+        filePath: string,
+        hash: string,
+        size: number,
+        sourceEncoding?: string,
+        targetEncoding?: string
+    ): Promise<BackupEntry> {
+        const timestamp = Date.now();
+        const entry: BackupEntry = {
+            id: `${timestamp.toString(36)}-${(counter++).toString(36)}`,
+            originalPath: filePath,
+            timestamp,
+            sourceEncoding,
+            targetEncoding,
+            hash,
+            size
+        };
+
+        const manifest = await loadManifest(directory);
+        manifest.entries.push(entry);
+        const removed = applyRetention(manifest, getRetention());
+        await saveManifest(directory, manifest);
+        await collectGarbage(directory, manifest, removed);
+
+        log(`Backup created: ${path.basename(filePath)} (${hash.slice(0, 12)})`);
+        if (removed.length > 0) {
+            log(`Backup retention removed ${removed.length} old version(s)`);
+        }
+        return entry;
+    }
+
+    async function add(filePath: string, content: Uint8Array, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry> {
+        return serialize(async () => {
+            const directory = getDirectory();
+            const hash = hashContent(content);
+            const target = objectPath(directory, hash);
+
+            await fs.createDirectory(path.join(directory, objectsDir));
+            try {
+                await fs.stat(target);
+            } catch (error) {
+                await fs.writeFile(target, content);
+            }
+
+            return record(directory, filePath, hash, content.length, sourceEncoding, targetEncoding);
+        });
+    }
+
+    /**
+     * Back up a file without holding it in memory
+     * The copy is hashed while it is written, so it happens outside the serialized section
+     */
+    async function addFile(filePath: string, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry> {
+        if (!fs.readStream || !fs.writeStream) {
+            throw new Error('Streaming backups need a file system with stream support');
+        }
+        const directory = getDirectory();
+        await fs.createDirectory(path.join(directory, objectsDir));
+        const tempPath = path.join(directory, objectsDir, `incoming-${Date.now().toString(36)}-${(counter++).toString(36)}.tmp`);
+
+        const hasher = crypto.createHash('sha256');
+        let size = 0;
+        const output = await fs.writeStream(tempPath);
+        try {
+            for await (const chunk of fs.readStream(filePath)) {
+                hasher.update(chunk);
+                size += chunk.length;
+                await output.write(chunk);
+            }
+            await output.close();
+        } catch (error) {
+            await output.close().catch(() => undefined);
+            await fs.delete(tempPath).catch(() => undefined);
+            throw error;
+        }
+        const hash = hasher.digest('hex');
+
+        return serialize(async () => {
+            const target = objectPath(directory, hash);
+            try {
+                await fs.stat(target);
+                await fs.delete(tempPath);
+            } catch (error) {
+                await fs.rename(tempPath, target);
+            }
+            return record(directory, filePath, hash, size, sourceEncoding, targetEncoding);
+        });
+    }
+
+    /**
+     * Stored versions, newest first, optionally only those of one file
+     */
+    async function list(filePath?: string): Promise<BackupEntry[]> {
+        const manifest = await serialize(() => loadManifest(getDirectory()));
+        return [...manifest.entries]
+            .reverse()
+            .filter(e => filePath === undefined || e.originalPath === filePath)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async function read(entry: BackupEntry): Promise<Uint8Array> {
+        return fs.readFile(objectPath(getDirectory(), entry.hash));
+    }
+
+    async function copyTo(entry: BackupEntry, destPath: string): Promise<void> {
+        if (!fs.readStream || !fs.writeStream) {
+            throw new Error('Streaming restores need a file system with stream support');
+        }
+        await copyStream(fs.readStream(objectPath(getDirectory(), entry.hash)), await fs.writeStream(destPath));
+    }
+
+    async function remove(entry: BackupEntry): Promise<void> {
+        await serialize(async () => {
+            const directory = getDirectory();
+            const manifest = await loadManifest(directory);
+            manifest.entries = manifest.entries.filter(e => e.id !== entry.id);
+            await saveManifest(directory, manifest);
+            await collectGarbage(directory, manifest, [entry]);
+        });
+    }
+
+    /**
+     * Apply the retention limits now, returns the number of removed versions
+     */
+    async function prune(): Promise<number> {
+        return serialize(async () => {
+            const directory = getDirectory();
+            const manifest = await loadManifest(directory);
+            const removed = applyRetention(manifest, getRetention());
+            if (removed.length > 0) {
+                await saveManifest(directory, manifest);
+                await collectGarbage(directory, manifest, removed);
+            }
+            return removed.length;
+        });
+    }
+
+    return { add, addFile, list, read, copyTo, remove, prune };
+}
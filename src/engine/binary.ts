@@ -0,0 +1,141 @@
+/**
+ * Binary content sniffing
+ * Looks at the leading bytes only: known magic numbers, NUL bytes and control-character density.
+ * UTF-16 and UTF-32 text contains NUL bytes too, so NULs in a regular pattern are checked as text first.
+ */
+
+import * as iconv from 'iconv-lite';
+import { detectBOM } from './encoding';
+
+// Bytes inspected, like git's own binary check
+const sampleSize = 8000;
+
+// Share of control characters above which text is considered binary
+const maxControlRatio = 0.1;
+
+// Signatures of common binary formats, bytes at an offset
+const magicNumbers: { kind: string; offset: number; bytes: number[] }[] = [
+    { kind: 'PNG image', offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+    { kind: 'JPEG image', offset: 0, bytes: [0xFF, 0xD8, 0xFF] },
+    { kind: 'GIF image', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+    { kind: 'TIFF image', offset: 0, bytes: [0x49, 0x49, 0x2A, 0x00] },
+    { kind: 'TIFF image', offset: 0, bytes: [0x4D, 0x4D, 0x00, 0x2A] },
+    { kind: 'icon', offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] },
+    { kind: 'PDF document', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2D] },
+    { kind: 'ZIP archive', offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04] },
+    { kind: 'ZIP archive', offset: 0, bytes: [0x50, 0x4B, 0x05, 0x06] },
+    { kind: 'gzip archive', offset: 0, bytes: [0x1F, 0x8B] },
+    { kind: '7-Zip archive', offset: 0, bytes: [0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C] },
+    { kind: 'RAR archive', offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1A, 0x07] },
+    { kind: 'xz archive', offset: 0, bytes: [0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00] },
+    { kind: 'ELF executable', offset: 0, bytes: [0x7F, 0x45, 0x4C, 0x46] },
+    { kind: 'Mach-O executable', offset: 0, bytes: [0xCF, 0xFA, 0xED, 0xFE] },
+    { kind: 'Mach-O executable', offset: 0, bytes: [0xCE, 0xFA, 0xED, 0xFE] },
+    { kind: 'Java class file', offset: 0, bytes: [0xCA, 0xFE, 0xBA, 0xBE] },
+    { kind: 'WebAssembly module', offset: 0, bytes: [0x00, 0x61, 0x73, 0x6D] },
+    { kind: 'SQLite database', offset: 0, bytes: [...Buffer.from('SQLite format 3\0', 'latin1')] },
+    { kind: 'TrueType font', offset: 0, bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+    { kind: 'OpenType font', offset: 0, bytes: [0x4F, 0x54, 0x54, 0x4F, 0x00] },
+    { kind: 'WOFF font', offset: 0, bytes: [0x77, 0x4F, 0x46, 0x46] },
+    { kind: 'WOFF2 font', offset: 0, bytes: [0x77, 0x4F, 0x46, 0x32] },
+    { kind: 'Ogg media', offset: 0, bytes: [0x4F, 0x67, 0x67, 0x53, 0x00] },
+    { kind: 'FLAC audio', offset: 0, bytes: [0x66, 0x4C, 0x61, 0x43, 0x00] },
+    { kind: 'MP4 media', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] },
+    { kind: 'WAVE audio', offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] },
+    { kind: 'AVI video', offset: 8, bytes: [0x41, 0x56, 0x49, 0x20] },
+    { kind: 'WebP image', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }
+];
+
+/**
+ * Name the binary format of a buffer by its magic number
+ */
+function findMagicNumber(sample: Buffer): string | undefined {
+    const match = magicNumbers.find(({ offset, bytes }) =>
+        sample.length >= offset + bytes.length && bytes.every((byte, i) => sample[offset + i] === byte)
+    );
+    if (!match) {
+        return undefined;
+    }
+    // The RIFF based formats share their container header
+    if (match.offset === 8 && sample.toString('latin1', 0, 4) !== 'RIFF') {
+        return undefined;
+    }
+    return match.kind;
+}
+
+/**
+ * Share of control characters in decoded text, tab, line breaks, form feed and escape are text
+ */
+function controlRatio(text: string): number {
+    if (text.length === 0) {
+        return 0;
+    }
+    let controls = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if ((code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D && code !== 0x0C && code !== 0x1B) || code === 0x7F) {
+            controls++;
+        }
+    }
+    return controls / text.length;
+}
+
+/**
+ * The UTF-16 or UTF-32 variant whose zero-byte pattern the sample follows, if any
+ * ASCII-range characters in UTF-16 have a zero high byte, in UTF-32 the two top bytes of BMP characters are zero
+ */
+export function wideTextEncoding(sample: Buffer): string | undefined {
+    const zerosAt = [0, 0, 0, 0];
+    for (let i = 0; i < sample.length; i++) {
+        if (sample[i] === 0) {
+            zerosAt[i % 4]++;
+        }
+    }
+    const units = Math.floor(sample.length / 4);
+    if (units > 0 && zerosAt[2] >= units && zerosAt[3] >= units) {
+        return 'utf-32le';
+    }
+    if (units > 0 && zerosAt[0] >= units && zerosAt[1] >= units) {
+        return 'utf-32be';
+    }
+    const even = zerosAt[0] + zerosAt[2];
+    const odd = zerosAt[1] + zerosAt[3];
+    // Non-Latin UTF-16 text has few zero bytes, but they still sit on one side only
+    if (odd > 0 && even <= odd * 0.05) {
+        return 'utf-16le';
+    }
+    if (even > 0 && odd <= even * 0.05) {
+        return 'utf-16be';
+    }
+    return undefined;
+}
+
+/**
+ * Decide from the leading bytes whether content is binary
+ * Returns what gave it away, undefined for text
+ */
+export function sniffBinary(buffer: Buffer): string | undefined {
+    // A byte-order mark means Unicode text
+    if (buffer.length === 0 || detectBOM(buffer)) {
+        return undefined;
+    }
+
+    const sample = buffer.subarray(0, sampleSize);
+    const magic = findMagicNumber(sample);
+    if (magic) {
+        return magic;
+    }
+
+    if (sample.includes(0)) {
+        const wide = wideTextEncoding(sample);
+        if (!wide) {
+            return 'NUL bytes';
+        }
+        // Cut to whole code units so the last character does not count as garbage
+        const unit = wide.startsWith('utf-32') ? 4 : 2;
+        const text = iconv.decode(sample.subarray(0, sample.length - (sample.length % unit)), wide);
+        return controlRatio(text) > maxControlRatio ? 'NUL bytes' : undefined;
+    }
+
+    return controlRatio(sample.toString('latin1')) > maxControlRatio ? 'control characters' : undefined;
+}
@@ -0,0 +1,175 @@
+/**
+ * Encoding catalogue
+ * Every text encoding iconv-lite can convert, grouped by region, with the aliases it is known by.
+ * The name of an entry is what the engine uses internally, normalizeEncoding maps every alias to it.
+ */
+
+export interface CatalogueEncoding {
+    name: string;
+    label: string;
+    region: string;
+    aliases: string[];
+}
+
+type Entry = [name: string, label: string, aliases: string[]];
+
+// In display order, the common encodings of a region first
+const regions: [region: string, entries: Entry[]][] = [
+    ['Unicode', [
+        ['utf-8', 'UTF-8', ['utf8', 'unicode-1-1-utf-8']],
+        ['utf-16le', 'UTF-16LE', ['utf16le', 'ucs-2', 'ucs2']],
+        ['utf-16be', 'UTF-16BE', ['utf16be']],
+        ['utf-16', 'UTF-16', ['utf16']],
+        ['utf-32le', 'UTF-32LE', ['utf32le', 'ucs-4le']],
+        ['utf-32be', 'UTF-32BE', ['utf32be', 'ucs-4be']],
+        ['utf-32', 'UTF-32', ['utf32', 'ucs-4']],
+        ['utf-7', 'UTF-7', ['utf7', 'unicode-1-1-utf-7']],
+        ['utf-7-imap', 'UTF-7 (IMAP)', ['utf7imap']],
+        ['cesu-8', 'CESU-8', ['cesu8']]
+    ]],
+    ['Western European', [
+        ['windows-1252', 'Windows-1252', ['cp1252', 'win1252', 'ms-ansi']],
+        ['iso-8859-1', 'ISO-8859-1', ['latin1', 'latin-1', 'l1', 'cp819', 'ibm819', 'cp28591']],
+        ['iso-8859-15', 'ISO-8859-15', ['latin9', 'latin-9', 'l9', 'cp28605']],
+        ['ascii', 'US-ASCII', ['us-ascii', 'iso646-us', 'ansi_x3.4-1968', 'cp367', 'csascii']],
+        ['macintosh', 'Mac Roman', ['macroman', 'mac', 'x-mac-roman']],
+        ['iso-8859-3', 'ISO-8859-3 (South European)', ['latin3', 'l3', 'cp28593']],
+        ['iso-8859-14', 'ISO-8859-14 (Celtic)', ['latin8', 'l8', 'celtic', 'cp28604']],
+        ['maciceland', 'Mac Icelandic', ['x-mac-icelandic']],
+        ['cp437', 'DOS US (CP437)', ['ibm437', '437']],
+        ['cp850', 'DOS Western European (CP850)', ['ibm850', '850']],
+        ['cp858', 'DOS Western European with Euro (CP858)', ['ibm858', '858']],
+        ['cp860', 'DOS Portuguese (CP860)', ['ibm860', '860']],
+        ['cp861', 'DOS Icelandic (CP861)', ['ibm861', '861']],
+        ['cp863', 'DOS Canadian French (CP863)', ['ibm863', '863']],
+        ['cp865', 'DOS Nordic (CP865)', ['ibm865', '865']],
+        ['hp-roman8', 'HP Roman-8', ['roman8', 'r8', 'ibm1051']]
+    ]],
+    ['Central European', [
+        ['windows-1250', 'Windows-1250', ['cp1250', 'win1250', 'ms-ee']],
+        ['iso-8859-2', 'ISO-8859-2', ['latin2', 'latin-2', 'l2', 'cp28592']],
+        ['iso-8859-16', 'ISO-8859-16 (South-Eastern European)', ['latin10', 'l10', 'cp28606']],
+        ['cp852', 'DOS Central European (CP852)', ['ibm852', '852']],
+        ['maccenteuro', 'Mac Central European', ['x-mac-ce', '10029']],
+        ['maccroatian', 'Mac Croatian', ['x-mac-croatian']],
+        ['macromania', 'Mac Romanian', ['x-mac-romanian']]
+    ]],
+    ['Cyrillic', [
+        ['windows-1251', 'Windows-1251', ['cp1251', 'win1251', 'ms-cyrl']],
+        ['koi8-r', 'KOI8-R (Russian)', ['koi8r', 'cp20866', 'ibm878']],
+        ['koi8-u', 'KOI8-U (Ukrainian)', ['koi8u', 'cp21866', 'ibm1168']],
+        ['koi8-ru', 'KOI8-RU (Belarusian)', ['koi8ru']],
+        ['iso-8859-5', 'ISO-8859-5', ['cyrillic', 'cp28595']],
+        ['cp866', 'DOS Cyrillic Russian (CP866)', ['ibm866', '866']],
+        ['cp855', 'DOS Cyrillic (CP855)', ['ibm855', '855']],
+        ['cp808', 'DOS Cyrillic Russian with Euro (CP808)', ['ibm808', '808']],
+        ['cp1125', 'DOS Ukrainian (CP1125)', ['ibm1125', 'rst-2018-91']],
+        ['cp1124', 'AIX Ukrainian (CP1124)', ['ibm1124']],
+        ['maccyrillic', 'Mac Cyrillic', ['x-mac-cyrillic', '10007']],
+        ['macukraine', 'Mac Ukrainian', ['x-mac-ukrainian']],
+        ['mik', 'MIK (Bulgarian)', []],
+        ['koi8-t', 'KOI8-T (Tajik)', ['koi8t']],
+        ['rk1048', 'RK1048 (Kazakh)', ['strk1048-2002', 'kz-1048']],
+        ['pt154', 'PT154 (Kazakh)', ['ptcp154', 'cp154']]
+    ]],
+    ['Greek', [
+        ['windows-1253', 'Windows-1253', ['cp1253', 'win1253', 'ms-greek']],
+        ['iso-8859-7', 'ISO-8859-7', ['greek', 'greek8', 'elot_928', 'cp28597']],
+        ['macgreek', 'Mac Greek', ['x-mac-greek', '10006']],
+        ['cp737', 'DOS Greek (CP737)', ['ibm737', '737']],
+        ['cp869', 'DOS Modern Greek (CP869)', ['ibm869', '869', 'cp-gr']]
+    ]],
+    ['Turkish', [
+        ['windows-1254', 'Windows-1254', ['cp1254', 'win1254', 'ms-turk']],
+        ['iso-8859-9', 'ISO-8859-9', ['latin5', 'l5', 'turkish', 'cp28599']],
+        ['macturkish', 'Mac Turkish', ['x-mac-turkish', '10081']],
+        ['cp857', 'DOS Turkish (CP857)', ['ibm857', '857']]
+    ]],
+    ['Baltic and Nordic', [
+        ['windows-1257', 'Windows-1257', ['cp1257', 'win1257', 'winbaltrim']],
+        ['iso-8859-13', 'ISO-8859-13', ['latin7', 'l7', 'cp28603']],
+        ['iso-8859-4', 'ISO-8859-4', ['latin4', 'l4', 'cp28594']],
+        ['iso-8859-10', 'ISO-8859-10 (Nordic)', ['latin6', 'l6', 'cp28600']],
+        ['cp775', 'DOS Baltic (CP775)', ['ibm775', '775']],
+        ['cp922', 'Estonian (CP922)', ['ibm922']]
+    ]],
+    ['Hebrew', [
+        ['windows-1255', 'Windows-1255', ['cp1255', 'win1255', 'ms-hebr']],
+        ['iso-8859-8', 'ISO-8859-8', ['hebrew', 'cp28598']],
+        ['cp862', 'DOS Hebrew (CP862)', ['ibm862', '862']],
+        ['cp856', 'Hebrew (CP856)', ['ibm856']]
+    ]],
+    ['Arabic', [
+        ['windows-1256', 'Windows-1256', ['cp1256', 'win1256', 'ms-arab']],
+        ['iso-8859-6', 'ISO-8859-6', ['arabic', 'asmo-708', 'ecma-114', 'cp28596']],
+        ['cp720', 'DOS Arabic (CP720)', []],
+        ['cp864', 'DOS Arabic (CP864)', ['ibm864', '864']],
+        ['cp1046', 'AIX Arabic (CP1046)', ['ibm1046']]
+    ]],
+    ['Southeast Asian', [
+        ['tis-620', 'TIS-620 (Thai)', ['tis620', 'iso-ir-166']],
+        ['windows-874', 'Windows-874 (Thai)', ['cp874', 'win874']],
+        ['iso-8859-11', 'ISO-8859-11 (Thai)', ['thai', 'cp28601']],
+        ['macthai', 'Mac Thai', ['x-mac-thai']],
+        ['cp1161', 'IBM Thai (CP1161)', ['ibm1161']],
+        ['cp1162', 'IBM Thai (CP1162)', ['ibm1162']],
+        ['windows-1258', 'Windows-1258 (Vietnamese)', ['cp1258', 'win1258']],
+        ['viscii', 'VISCII (Vietnamese)', []],
+        ['tcvn', 'TCVN (Vietnamese)', ['tcvn5712']],
+        ['cp1129', 'IBM Vietnamese (CP1129)', ['ibm1129']],
+        ['cp1163', 'IBM Vietnamese with Euro (CP1163)', ['ibm1163']],
+        ['cp1133', 'IBM Lao (CP1133)', ['ibm1133']]
+    ]],
+    ['Caucasian', [
+        ['armscii8', 'ARMSCII-8 (Armenian)', ['armscii-8']],
+        ['georgianacademy', 'Georgian Academy', ['georgian-academy']],
+        ['georgianps', 'Georgian PS', ['georgian-ps']]
+    ]],
+    ['Chinese Simplified', [
+        ['gbk', 'GBK', ['x-gbk', 'cp936', 'windows-936', 'ms936']],
+        ['gb18030', 'GB18030', ['chinese']],
+        ['gb2312', 'GB2312', ['euc-cn', 'csgb2312', 'gb_2312-80']],
+        ['iso646-cn', 'ISO646-CN', ['gb_1988-80']]
+    ]],
+    ['Chinese Traditional', [
+        ['big5', 'Big5', ['cn-big5', 'csbig5', 'x-x-big5']],
+        ['big5-hkscs', 'Big5-HKSCS (Hong Kong)', ['big5hkscs']],
+        ['cp950', 'Windows-950', ['windows-950', 'ms950']]
+    ]],
+    ['Japanese', [
+        ['shift_jis', 'Shift_JIS', ['sjis', 'shift-jis', 'ms_kanji', 'windows-31j', 'cp932', 'windows-932', 'ms932', 'x-sjis']],
+        ['euc-jp', 'EUC-JP', ['eucjp']],
+        ['iso646-jp', 'ISO646-JP', ['jis_c6220-1969-ro']]
+    ]],
+    ['Korean', [
+        ['euc-kr', 'EUC-KR', ['euckr', 'cp949', 'windows-949', 'ms949', 'ks_c_5601-1987', 'ksc5601', 'cseuckr', 'korean']]
+    ]]
+];
+
+/**
+ * All catalogue entries in display order
+ */
+export const encodingCatalogue: CatalogueEncoding[] = regions.flatMap(([region, entries]) =>
+    entries.map(([name, label, aliases]) => ({ name, label, region, aliases }))
+);
+
+// Spellings differ in case and punctuation only, "Shift-JIS" and "shift_jis" are the same name
+function aliasKey(name: string): string {
+    return name.toLowerCase().replace(/[^0-9a-z]/g, '');
+}
+
+const byAlias = new Map<string, CatalogueEncoding>();
+for (const entry of encodingCatalogue) {
+    for (const alias of [entry.name, entry.label, ...entry.aliases]) {
+        if (!byAlias.has(aliasKey(alias))) {
+            byAlias.set(aliasKey(alias), entry);
+        }
+    }
+}
+
+/**
+ * The catalogue entry a name or alias refers to, if any
+ */
+export function findEncoding(nameOrAlias: string): CatalogueEncoding | undefined {
+    return byAlias.get(aliasKey(nameOrAlias));
+}
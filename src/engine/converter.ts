@@ -0,0 +1,1609 @@
+/**
+ * Conversion engine
+ * Detection, verification, backup and conversion logic with no dependency on VS Code.
+ * Everything that touches the outside world goes through the EngineHost.
+ */
+
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { createBackupStore, hashContent } from './backupStore';
+import { sniffBinary } from './binary';
+import { detectBufferEncoding, rankEncodings } from './detection';
+import { createEditorConfigResolver } from './editorconfig';
+import { matchesDirectory, matchesGlob, toRelativePath } from './glob';
+import { findIgnoringRule, IgnoreRule, parseGitignore } from './ignore';
+import { analyzeMixedContent } from './mixed';
+import { findMojibakeRepairs, reverseMojibake } from './mojibake';
+import { findNonAscii, hashStream, majorityLineEnding, readSample, scanLineEndings, transcodeStream, trimToLineBoundary } from './streaming';
+import {
+    applyUnmappablePolicy,
+    bomFor,
+    countLineEndings,
+    detectBOM,
+    encodeText,
+    hasDecodeLoss,
+    lineEndingStyle,
+    normalizeEncoding,
+    normalizeLineEndings,
+    splitBomEncoding,
+    stripBOMBytes,
+    utf8ByteRange,
+    verifyConversion
+} from './encoding';
+import {
+    BackupEntry,
+    BatchConversionResult,
+    ConversionResult,
+    EncodingCandidate,
+    EncodingConverterConfig,
+    EncodingDetection,
+    EncodingPreview,
+    EncodingRule,
+    EngineHost,
+    EngineWriteStream,
+    EolPolicy,
+    FileAnalysis,
+    FileCollection,
+    FileEntryType,
+    MixedEncodingAnalysis,
+    MojibakeRepair,
+    PreparedConversion,
+    UnmappablePolicy
+} from './types';
+
+// Longest preview line, the rest of a line adds nothing to telling encodings apart
+const maxPreviewLineLength = 200;
+
+// Bytes detection looks at when a file is streamed
+const detectionSampleSize = 256 * 1024;
+
+// Largest file read whole when streaming is off, more would risk running out of memory
+const maxInMemorySize = 100 * 1024 * 1024;
+
+// How far back from the first non-ASCII byte a detection sample looks for the start of its line
+const lineLookBehind = 4096;
+
+// A streamed conversion, written to a temporary sibling when there is something to write
+interface StagedConversion {
+    result: ConversionResult;
+    stagedPath?: string;
+}
+
+export interface ConversionEngine {
+    shouldProcessFile(filePath: string, config: EncodingConverterConfig): { shouldProcess: boolean; reason?: string };
+    detectEncoding(filePath: string): Promise<EncodingDetection>;
+    findRule(filePath: string): EncodingRule | undefined;
+    matchesWorkspaceGlob(filePath: string, patterns: string[]): boolean;
+    editorConfigCharset(filePath: string): Promise<string | undefined>;
+    expectedEncodingFor(filePath: string): Promise<string>;
+    writeEditorConfigCharset(dirPath: string, encoding: string): Promise<string>;
+    analyzeFile(filePath: string): Promise<FileAnalysis>;
+    previewEncodings(filePath: string, maxLines?: number): Promise<EncodingPreview[]>;
+    analyzeMixedEncoding(filePath: string): Promise<MixedEncodingAnalysis>;
+    prepareMixedRepair(filePath: string, targetEncoding?: string): Promise<PreparedConversion>;
+    suggestMojibakeRepairs(filePath: string): Promise<{ encoding: string; repairs: MojibakeRepair[] }>;
+    prepareMojibakeRepair(filePath: string, misreadAs: string, original: string): Promise<PreparedConversion>;
+    reinterpretFileRange(filePath: string, start: number, end: number, expectedText: string, original: string): Promise<string>;
+    prepareConversion(filePath: string, sourceEncoding?: string, targetEncoding?: string, unmappablePolicy?: UnmappablePolicy, eolPolicy?: EolPolicy): Promise<PreparedConversion>;
+    writePreparedConversion(filePath: string, prepared: PreparedConversion): Promise<ConversionResult>;
+    convertFile(
+        filePath: string,
+        sourceEncoding?: string,
+        targetEncoding?: string,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        onProgress?: (bytesProcessed: number, totalBytes: number) => void,
+        isCancelled?: () => boolean
+    ): Promise<ConversionResult>;
+    isStreamed(fileSize: number): boolean;
+    convertFilesTransactionally(
+        filePaths: string[],
+        sourceEncoding?: string,
+        targetEncoding?: string,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        onProgress?: (filePath: string, processed: number, total: number) => void,
+        isCancelled?: () => boolean,
+        onFileProgress?: (filePath: string, bytesProcessed: number, totalBytes: number) => void
+    ): Promise<BatchConversionResult>;
+    writeFileAtomically(filePath: string, content: Uint8Array): Promise<void>;
+    setByteOrderMark(filePath: string, addBOM: boolean): Promise<ConversionResult>;
+    getFilesInDirectory(dirPath: string): Promise<string[]>;
+    collectFiles(dirPath: string): Promise<FileCollection>;
+    createBackup(filePath: string, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry | undefined>;
+    listBackups(filePath?: string): Promise<BackupEntry[]>;
+    findLatestBackup(filePath: string): Promise<BackupEntry | undefined>;
+    restoreBackup(entry: BackupEntry, keepBackup?: boolean, backupCurrent?: boolean): Promise<void>;
+    hashFile(filePath: string): Promise<string>;
+}
+
+/**
+ * Create a conversion engine bound to a host (VS Code, Node CLI, ...)
+ */
+export function createConversionEngine(host: EngineHost): ConversionEngine {
+    const fs = host.fs;
+    const getConfig = () => host.getConfig();
+    const log = (message: string, level: 'info' | 'warn' | 'error' = 'info') => host.log(message, level);
+    const backups = createBackupStore(
+        fs,
+        () => getConfig().backupDirectory || host.defaultBackupDirectory,
+        () => getConfig().backupRetention,
+        log
+    );
+    const editorConfig = createEditorConfigResolver(fs);
+
+    /**
+     * Check if file should be processed
+     * This function filters out files that don't need processing, avoiding binary files
+     */
+    function shouldProcessFile(filePath: string, config: EncodingConverterConfig): { shouldProcess: boolean; reason?: string } {
+        const fileName = path.basename(filePath);
+        const fileExtension = path.extname(fileName).toLowerCase();
+        
+        // Skip untitled files (unsaved files)
+        if (filePath.startsWith('untitled:')) {
+            return { shouldProcess: false, reason: 'Untitled/unsaved file' };
+        }
+        
+        // Check exclude and include patterns against the path relative to the workspace root
+        const root = host.getWorkspaceRoot?.(filePath);
+        const relativePath = (root && toRelativePath(root, filePath)) || fileName;
+        for (const pattern of config.excludePatterns) {
+            if (matchesGlob(relativePath, pattern)) {
+                return { shouldProcess: false, reason: `Excluded by pattern: ${pattern}` };
+            }
+        }
+        if (config.includePatterns.length > 0 && !config.includePatterns.some(pattern => matchesGlob(relativePath, pattern))) {
+            return { shouldProcess: false, reason: 'Not matched by includePatterns' };
+        }
+        
+        // Check common binary file extensions
+        // This list has been accumulated over time to avoid processing binary files
+        const binaryExtensions = [
+            '.exe', '.dll', '.so', '.dylib', '.bin', '.obj', '.o', '.a', '.lib',
+            '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.tiff', '.ico', '.webp',
+            '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.flv', '.mkv', '.wav', '.ogg',
+            '.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz', '.lzma',
+            '.pdf', '.doc', '.docx', '.ppt', '.pptx', '.xls', '.xlsx'
+        ];
+        
+        if (binaryExtensions.includes(fileExtension)) {
+            return { shouldProcess: false, reason: 'Binary file type' };
+        }
+        
+        return { shouldProcess: true };
+    }
+
+    /**
+     * Get file size for logging
+     */
+    async function getFileSize(filePath: string): Promise<number> {
+        try {
+            const stat = await fs.stat(filePath);
+            return stat.size;
+        } catch (error) {
+            return 0;
+        }
+    }
+
+    // Makes temporary sibling names unique within this process
+    let tempCounter = 0;
+
+    /**
+     * Hidden name next to a file, so a rename into place never crosses file systems
+     */
+    function tempSibling(filePath: string, purpose: string): string {
+        const suffix = `${Date.now().toString(36)}${(tempCounter++).toString(36)}`;
+        return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${purpose}-${suffix}.tmp`);
+    }
+
+    /**
+     * Write to a temporary sibling and rename it over the target
+     * A crash or full disk leaves either the old or the new content, never a truncated file
+     */
+    async function writeFileAtomically(filePath: string, content: Uint8Array): Promise<void> {
+        const tempPath = tempSibling(filePath, 'write');
+        try {
+            await fs.writeFile(tempPath, content);
+            await fs.rename(tempPath, filePath);
+        } catch (error) {
+            await fs.delete(tempPath).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    /**
+     * Whether a file of this size is converted in chunks instead of being read whole
+     */
+    function isStreamed(fileSize: number): boolean {
+        const threshold = getConfig().streamingThresholdMB;
+        return threshold > 0 && fileSize >= threshold * 1024 * 1024 && fs.readStream !== undefined && fs.writeStream !== undefined;
+    }
+
+    function openReadStream(filePath: string, start?: number, end?: number): AsyncIterable<Uint8Array> {
+        if (!fs.readStream) {
+            throw new Error('The file system does not support streaming');
+        }
+        return fs.readStream(filePath, start, end);
+    }
+
+    function openWriteStream(filePath: string): Promise<EngineWriteStream> {
+        if (!fs.writeStream) {
+            throw new Error('The file system does not support streaming');
+        }
+        return fs.writeStream(filePath);
+    }
+
+    /**
+     * Bytes of a streamed file to detect its encoding from, cut at a line boundary when the file goes on
+     * An ASCII-only head says nothing about the rest, such a sample starts at the line of the first
+     * byte that is not plain ASCII instead. The head is kept only when the whole file is ASCII.
+     */
+    async function readFileSample(filePath: string, fileSize: number): Promise<Buffer> {
+        const head = await readSample(openReadStream(filePath, 0, detectionSampleSize - 1), detectionSampleSize);
+        if (fileSize <= head.length) {
+            return head;
+        }
+        if (head.some(byte => byte === 0 || byte >= 0x80)) {
+            return trimToLineBoundary(head);
+        }
+        const firstNonAscii = await findNonAscii(openReadStream(filePath, head.length));
+        if (firstNonAscii === undefined) {
+            return trimToLineBoundary(head);
+        }
+        
+        // Back up to the line feed before it, a sample starting with ASCII never looks like it has a BOM
+        const offset = head.length + firstNonAscii;
+        const start = offset - lineLookBehind;
+        const window = await readSample(openReadStream(filePath, start, start + detectionSampleSize - 1), detectionSampleSize);
+        const sample = window.subarray(Math.max(0, window.lastIndexOf(0x0A, offset - start)));
+        return start + window.length < fileSize ? trimToLineBoundary(sample) : sample;
+    }
+
+    /**
+     * Detection method of a sampled file, an ASCII-only sample means the whole file was read
+     */
+    function sampledMethod(method: string): string {
+        return method === 'ascii-only' ? 'ascii-only, whole file read' : `${method}, sampled`;
+    }
+
+    /**
+     * SHA-256 of a file's current content, streamed when the host can
+     */
+    async function hashFile(filePath: string): Promise<string> {
+        if (fs.readStream) {
+            return (await hashStream(fs.readStream(filePath))).hash;
+        }
+        return hashContent(await fs.readFile(filePath));
+    }
+
+    /**
+     * Whether the output gets a byte-order mark
+     * Plain UTF-16 always keeps its mark, without one the byte order is a guess
+     */
+    function shouldWriteBOM(encodeAs: string, requested: boolean, sourceBOM: string | undefined, config: EncodingConverterConfig): boolean {
+        return bomFor(encodeAs) !== undefined && (
+            requested ||
+            normalizeEncoding(encodeAs) === 'utf-16' ||
+            config.bomPolicy === 'add' ||
+            (config.bomPolicy === 'preserve' && sourceBOM !== undefined)
+        );
+    }
+
+    /**
+     * Store the current content of a file in the backup store
+     */
+    async function createBackup(filePath: string, sourceEncoding?: string, targetEncoding?: string): Promise<BackupEntry | undefined> {
+        try {
+            if (isStreamed(await getFileSize(filePath))) {
+                return await backups.addFile(filePath, sourceEncoding, targetEncoding);
+            }
+            const originalContent = await fs.readFile(filePath);
+            return await backups.add(filePath, originalContent, sourceEncoding, targetEncoding);
+        } catch (error) {
+            log(`Failed to create backup: ${error}`, 'error');
+            return undefined;
+        }
+    }
+
+    /**
+     * First rule whose pattern matches the file's path relative to its workspace root
+     */
+    function findRule(filePath: string): EncodingRule | undefined {
+        const root = host.getWorkspaceRoot?.(filePath);
+        const relativePath = root ? toRelativePath(root, filePath) : undefined;
+        if (!relativePath) {
+            return undefined;
+        }
+        return getConfig().rules.find(rule => rule.pattern && rule.source && matchesGlob(relativePath, rule.pattern));
+    }
+
+    /**
+     * Whether a file matches any of the globs, relative to its workspace folder like the rules
+     */
+    function matchesWorkspaceGlob(filePath: string, patterns: string[]): boolean {
+        const root = host.getWorkspaceRoot?.(filePath);
+        const relativePath = root ? toRelativePath(root, filePath) : undefined;
+        return !!relativePath && patterns.some(pattern => pattern && matchesGlob(relativePath, pattern));
+    }
+
+    /**
+     * Charset the .editorconfig files above a file declare for it, if honoured
+     */
+    async function editorConfigCharset(filePath: string): Promise<string | undefined> {
+        if (!getConfig().useEditorConfig) {
+            return undefined;
+        }
+        try {
+            return await editorConfig.charsetFor(filePath);
+        } catch (error) {
+            log(`Failed to read .editorconfig for ${filePath}: ${error}`, 'warn');
+            return undefined;
+        }
+    }
+
+    /**
+     * Encoding a file should be in: the matching rule's target, else the .editorconfig charset,
+     * else the expectedEncoding setting
+     */
+    async function expectedEncodingFor(filePath: string): Promise<string> {
+        return findRule(filePath)?.target || await editorConfigCharset(filePath) || getConfig().expectedEncoding;
+    }
+
+    /**
+     * Write or update the charset entry of the .editorconfig in a directory
+     */
+    async function writeEditorConfigCharset(dirPath: string, encoding: string): Promise<string> {
+        const configPath = await editorConfig.writeCharset(dirPath, encoding);
+        log(`Set charset for ${encoding.toUpperCase()} in ${configPath}`);
+        return configPath;
+    }
+
+    /**
+     * Detect raw content, a matching rule is trusted before any detection method
+     */
+    async function detectFileEncoding(filePath: string, rawBuffer: Buffer): Promise<EncodingDetection> {
+        // Binary content has no text encoding, whatever a rule or a detector would claim
+        const binary = sniffBinary(rawBuffer);
+        if (binary) {
+            return { encoding: 'binary', confidence: 1.0, method: `binary content: ${binary}` };
+        }
+        
+        // A byte-order mark is harder evidence than any declaration
+        const rule = detectBOM(rawBuffer) ? undefined : findRule(filePath);
+        if (rule) {
+            // Files a rule declares legacy may already have been converted, valid UTF-8 is a reliable sign
+            const target = normalizeEncoding(splitBomEncoding(await expectedEncodingFor(filePath)).encoding);
+            const isAscii = rawBuffer.every(byte => byte < 0x80);
+            if (target === 'utf-8' && !isAscii && !hasDecodeLoss(rawBuffer, iconv.decode(rawBuffer, target), target)) {
+                return { encoding: target, confidence: 0.9, method: `rule: ${rule.pattern} (already ${target})` };
+            }
+            return { encoding: normalizeEncoding(rule.source), confidence: 1.0, method: `rule: ${rule.pattern}` };
+        }
+        return detectBufferEncoding(rawBuffer, log, host.getKnownEncoding?.(filePath));
+    }
+
+    /**
+     * Detect file encoding with multiple methods
+     */
+    async function detectEncoding(filePath: string): Promise<EncodingDetection> {
+        try {
+            // Large files are judged by a sample
+            const fileSize = await getFileSize(filePath);
+            if (isStreamed(fileSize)) {
+                const detection = await detectFileEncoding(filePath, await readFileSample(filePath, fileSize));
+                return { ...detection, method: sampledMethod(detection.method) };
+            }
+            const raw = await fs.readFile(filePath);
+            return await detectFileEncoding(filePath, Buffer.from(raw));
+        } catch (error) {
+            log(`Encoding detection failed: ${error}`, 'error');
+            return { encoding: 'utf-8', confidence: 0.1, method: 'fallback' };
+        }
+    }
+
+    /**
+     * Collect read-only facts about a file: encoding, BOM, line endings and size
+     * Never writes anything
+     */
+    async function analyzeFile(filePath: string): Promise<FileAnalysis> {
+        try {
+            // Large files are detected from a sample, their line endings counted in a streamed pass
+            const fileSize = await getFileSize(filePath);
+            const streamed = isStreamed(fileSize);
+            const rawBuffer = streamed ? await readFileSample(filePath, fileSize) : Buffer.from(await fs.readFile(filePath));
+            const detection = await detectFileEncoding(filePath, rawBuffer);
+            
+            let lineEndingCounts = { lf: 0, crlf: 0, cr: 0 };
+            try {
+                if (detection.encoding !== 'binary') {
+                    lineEndingCounts = streamed
+                        ? await scanLineEndings(openReadStream(filePath), detection.encoding) ?? lineEndingCounts
+                        : countLineEndings(iconv.decode(rawBuffer, detection.encoding));
+                }
+            } catch (error) {
+                log(`Could not decode ${path.basename(filePath)} as ${detection.encoding}: ${error}`, 'warn');
+            }
+            
+            return {
+                filePath,
+                ...detection,
+                method: streamed ? sampledMethod(detection.method) : detection.method,
+                bom: detectBOM(rawBuffer),
+                lineEndings: lineEndingStyle(lineEndingCounts),
+                lineEndingCounts,
+                size: streamed ? fileSize : rawBuffer.length
+            };
+        } catch (error) {
+            return {
+                filePath,
+                encoding: 'unknown',
+                confidence: 0,
+                method: 'error',
+                lineEndings: 'none',
+                lineEndingCounts: { lf: 0, crlf: 0, cr: 0 },
+                size: 0,
+                error: `${error}`
+            };
+        }
+    }
+
+    /**
+     * Decode the start of a file with every plausible encoding, the detected one first
+     * Binary files have no candidates
+     */
+    async function previewEncodings(filePath: string, maxLines: number = 5): Promise<EncodingPreview[]> {
+        const sample = await readFileSample(filePath, await getFileSize(filePath));
+        const detection = await detectFileEncoding(filePath, sample);
+        if (detection.encoding === 'binary') {
+            return [];
+        }
+        
+        // A BOM or a rule decides without ranking, the ranking still supplies the alternatives
+        const candidates = [...detection.candidates ?? []];
+        if (candidates.length === 0) {
+            candidates.push({ encoding: detection.encoding, score: detection.confidence, reasons: [detection.method] });
+            for (const candidate of await rankEncodings(sample, log, host.getKnownEncoding?.(filePath))) {
+                if (!candidates.some(c => normalizeEncoding(c.encoding) === normalizeEncoding(candidate.encoding))) {
+                    candidates.push(candidate);
+                }
+            }
+        }
+        
+        // U+FFFD the bytes actually spell is text, not a decoding failure
+        const countReplacements = (text: string, encoding: string): number => {
+            const decoded = text.split('\ufffd').length - 1;
+            if (decoded === 0) {
+                return 0;
+            }
+            const spelled = iconv.encode('\ufffd', encoding, { addBOM: false });
+            if (iconv.decode(spelled, encoding) !== '\ufffd') {
+                return decoded;
+            }
+            let legitimate = 0;
+            for (let i = sample.indexOf(spelled); i >= 0; i = sample.indexOf(spelled, i + spelled.length)) {
+                legitimate++;
+            }
+            return Math.max(0, decoded - legitimate);
+        };
+        
+        const previews: EncodingPreview[] = [];
+        for (const candidate of candidates) {
+            let text: string;
+            try {
+                text = iconv.decode(sample, candidate.encoding);
+            } catch (error) {
+                log(`Could not decode ${path.basename(filePath)} as ${candidate.encoding}: ${error}`, 'warn');
+                continue;
+            }
+            
+            // ASCII reads the same in every candidate, the lines worth comparing are the others
+            const lines = text.split(/\r\n|\r|\n/).filter(line => line.trim().length > 0);
+            const telling = lines.filter(line => /[^\x00-\x7F]/.test(line));
+            previews.push({
+                ...candidate,
+                lines: (telling.length > 0 ? telling : lines)
+                    .slice(0, maxLines)
+                    .map(line => line.length > maxPreviewLineLength ? `${line.slice(0, maxPreviewLineLength)}...` : line),
+                replacementCharacters: countReplacements(text, candidate.encoding)
+            });
+        }
+        return previews;
+    }
+
+    /**
+     * Work out the encoding of every line of a file, never writes anything
+     */
+    async function analyzeMixedEncoding(filePath: string): Promise<MixedEncodingAnalysis> {
+        const rawBuffer = Buffer.from(await fs.readFile(filePath));
+        if (sniffBinary(rawBuffer)) {
+            return { mixed: false, encodings: ['binary'], segments: [] };
+        }
+        return analyzeMixedContent(rawBuffer, log);
+    }
+
+    /**
+     * Decode every segment of a mixed-encoding file with its own encoding and encode the whole as one
+     * originalText is the file as a whole-file detector reads it, in the encoding of its largest segment
+     */
+    async function prepareMixedRepair(filePath: string, targetEncoding: string = 'utf-8'): Promise<PreparedConversion> {
+        const config = getConfig();
+        const fileName = path.basename(filePath);
+        let fileSize: number | undefined;
+        
+        try {
+            fileSize = await getFileSize(filePath);
+            if (isStreamed(fileSize)) {
+                return { result: { success: false, filePath, fileSize, skipped: true, skipReason: 'Too large for mixed-encoding repair' } };
+            }
+            
+            const rawBuffer = Buffer.from(await fs.readFile(filePath));
+            const binary = sniffBinary(rawBuffer);
+            if (binary) {
+                return { result: { success: false, filePath, fileSize, skipped: true, skipReason: `Binary content detected (${binary})` } };
+            }
+            
+            const analysis = await analyzeMixedContent(rawBuffer, log);
+            if (!analysis.mixed) {
+                return {
+                    result: {
+                        success: true,
+                        filePath,
+                        originalEncoding: analysis.encodings[0],
+                        targetEncoding,
+                        fileSize,
+                        skipped: true,
+                        skipReason: 'Not mixed, every line is in the same encoding'
+                    }
+                };
+            }
+            
+            const largest = analysis.segments.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+            const originalText = iconv.decode(rawBuffer.subarray(analysis.segments[0].start), largest.encoding);
+            const originalEncoding = analysis.encodings.join(' + ');
+            
+            // Every segment has to decode without loss, or its bytes would not survive the repair
+            const pieces: string[] = [];
+            for (const segment of analysis.segments) {
+                const bytes = rawBuffer.subarray(segment.start, segment.end);
+                const text = iconv.decode(bytes, segment.encoding);
+                if (hasDecodeLoss(bytes, text, segment.encoding)) {
+                    const error = `Lossy repair, file not written: lines ${segment.startLine}-${segment.endLine} do not decode cleanly as ${segment.encoding.toUpperCase()}`;
+                    log(`${fileName}: ${error}`, 'warn');
+                    return {
+                        result: { success: false, filePath, originalEncoding, targetEncoding, fileSize, error, lossy: true },
+                        rawBuffer,
+                        originalText
+                    };
+                }
+                pieces.push(text);
+            }
+            
+            const target = splitBomEncoding(targetEncoding);
+            const sourceBOM = detectBOM(rawBuffer);
+            const writeBOM = shouldWriteBOM(target.encoding, target.withBOM, sourceBOM, config);
+            const convertedText = pieces.join('');
+            const encodedBuffer = encodeText(convertedText, target.encoding, writeBOM);
+            
+            // The target has to hold every character, mixed files are repaired whole or not at all
+            if (iconv.decode(encodedBuffer, target.encoding) !== convertedText) {
+                const error = `Lossy repair, file not written: ${target.encoding.toUpperCase()} cannot represent some characters`;
+                log(`${fileName}: ${error}`, 'warn');
+                return {
+                    result: { success: false, filePath, originalEncoding, targetEncoding, fileSize, error, lossy: true },
+                    rawBuffer,
+                    originalText,
+                    convertedText
+                };
+            }
+            
+            log(`${fileName}: ${analysis.segments.length} segment(s) in ${originalEncoding} repaired as ${targetEncoding}`);
+            return {
+                result: {
+                    success: true,
+                    filePath,
+                    originalEncoding,
+                    targetEncoding,
+                    fileSize,
+                    detectedOriginalEncoding: originalEncoding,
+                    lineEndings: countLineEndings(convertedText),
+                    eolPolicy: 'keep',
+                    linesChanged: 0
+                },
+                rawBuffer,
+                originalText,
+                convertedText,
+                encodedBuffer
+            };
+        } catch (error) {
+            const errorMessage = `Mixed-encoding repair failed: ${error}`;
+            log(errorMessage, 'error');
+            return { result: { success: false, filePath, targetEncoding, fileSize, error: errorMessage } };
+        }
+    }
+
+    /**
+     * Read a file as text in its detected encoding, for the repairs that work on text
+     */
+    async function readAsText(filePath: string): Promise<{ rawBuffer: Buffer; encoding: string; text: string }> {
+        const fileSize = await getFileSize(filePath);
+        if (isStreamed(fileSize)) {
+            throw new Error('Too large to repair in memory');
+        }
+        const rawBuffer = Buffer.from(await fs.readFile(filePath));
+        const detection = await detectFileEncoding(filePath, rawBuffer);
+        if (detection.encoding === 'binary') {
+            throw new Error(`Binary file (${detection.method})`);
+        }
+        const encoding = detection.encoding === 'ascii' ? 'utf-8' : normalizeEncoding(detection.encoding);
+        return { rawBuffer, encoding, text: iconv.decode(rawBuffer, encoding) };
+    }
+
+    /**
+     * Find the reverse transformations that look like they undo a double encoding, best first
+     */
+    async function suggestMojibakeRepairs(filePath: string): Promise<{ encoding: string; repairs: MojibakeRepair[] }> {
+        const { encoding, text } = await readAsText(filePath);
+        const repairs = findMojibakeRepairs(text);
+        log(`Mojibake repairs for ${path.basename(filePath)}: ${repairs.map(r => `${r.original} read as ${r.misreadAs} ${r.score.toFixed(2)}`).join(', ') || 'none'}`);
+        return { encoding, repairs };
+    }
+
+    /**
+     * Undo a misreading of a file in memory
+     * The file keeps its encoding and BOM when that can hold the repaired text, otherwise it becomes UTF-8
+     */
+    async function prepareMojibakeRepair(filePath: string, misreadAs: string, original: string): Promise<PreparedConversion> {
+        const fileName = path.basename(filePath);
+        try {
+            const { rawBuffer, encoding, text } = await readAsText(filePath);
+            const repaired = reverseMojibake(text, misreadAs, original);
+            const operation = `${original} read as ${misreadAs}`;
+            if (repaired.linesRepaired === 0) {
+                return {
+                    result: {
+                        success: true,
+                        filePath,
+                        originalEncoding: encoding,
+                        targetEncoding: encoding,
+                        fileSize: rawBuffer.length,
+                        skipped: true,
+                        skipReason: `Nothing to repair as ${operation}`
+                    }
+                };
+            }
+            
+            const bom = detectBOM(rawBuffer) !== undefined;
+            let targetEncoding = encoding;
+            let encodedBuffer = encodeText(repaired.text, targetEncoding, bom);
+            if (iconv.decode(encodedBuffer, targetEncoding) !== repaired.text) {
+                targetEncoding = 'utf-8';
+                encodedBuffer = encodeText(repaired.text, targetEncoding, bom && encoding === 'utf-8');
+                log(`${fileName}: ${encoding.toUpperCase()} cannot hold the repaired text, writing UTF-8`, 'warn');
+            }
+            
+            log(`${fileName}: ${repaired.linesRepaired} line(s) repaired as ${operation}`);
+            return {
+                result: {
+                    success: true,
+                    filePath,
+                    originalEncoding: encoding,
+                    targetEncoding,
+                    fileSize: rawBuffer.length,
+                    detectedOriginalEncoding: encoding
+                },
+                rawBuffer,
+                originalText: text,
+                convertedText: repaired.text,
+                encodedBuffer
+            };
+        } catch (error) {
+            const errorMessage = `Mojibake repair failed: ${error}`;
+            log(errorMessage, 'error');
+            return { result: { success: false, filePath, error: errorMessage } };
+        }
+    }
+
+    /**
+     * Decode the bytes behind a range of a file read as UTF-8 with another encoding
+     * Bytes UTF-8 could not decode only reach the editor as U+FFFD, the file still has them.
+     * The range is in UTF-16 code units of the decoded text, which must match expectedText
+     */
+    async function reinterpretFileRange(filePath: string, start: number, end: number, expectedText: string, original: string): Promise<string> {
+        const fileSize = await getFileSize(filePath);
+        if (isStreamed(fileSize)) {
+            throw new Error('Too large to read in memory');
+        }
+        const rawBuffer = Buffer.from(await fs.readFile(filePath));
+        const content = detectBOM(rawBuffer) === 'utf-8' ? stripBOMBytes(rawBuffer) : rawBuffer;
+        if (content.toString('utf8').slice(start, end) !== expectedText) {
+            throw new Error(`${path.basename(filePath)} on disk differs from the editor, or was not read as UTF-8`);
+        }
+        const text = iconv.decode(utf8ByteRange(content, start, end), original);
+        if (text.includes('\ufffd')) {
+            throw new Error(`The selected bytes are not valid ${original}`);
+        }
+        log(`Reinterpreted ${end - start} character(s) of ${path.basename(filePath)} as ${original}`);
+        return text;
+    }
+
+    /**
+     * Run detection, decode, encode and verification in memory without touching the file
+     * Shared by convertFile and the preview commands
+     */
+    async function prepareConversion(
+        filePath: string,
+        sourceEncoding?: string,
+        targetEncoding: string = 'utf8',
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy
+    ): Promise<PreparedConversion> {
+        const config = getConfig();
+        const policy = unmappablePolicy ?? config.unmappablePolicy;
+        const eolMode = eolPolicy ?? config.eolPolicy;
+        const fileName = path.basename(filePath);
+        
+        log(`Starting conversion: ${fileName}`);
+        
+        // Check if file should be processed
+        const processCheck = shouldProcessFile(filePath, config);
+        if (!processCheck.shouldProcess) {
+            return {
+                result: {
+                    success: false,
+                    filePath,
+                    skipped: true,
+                    skipReason: processCheck.reason
+                }
+            };
+        }
+        
+        // Files meant for streaming are never read whole, nor is anything past the in-memory limit
+        const fileSize = await getFileSize(filePath);
+        if (isStreamed(fileSize) || fileSize > maxInMemorySize) {
+            const sizeMB = (fileSize / (1024 * 1024)).toFixed(1);
+            log(`Skipping ${fileName}: too large to prepare in memory (${sizeMB}MB)`, 'warn');
+            return {
+                result: {
+                    success: false,
+                    filePath,
+                    skipped: true,
+                    skipReason: isStreamed(fileSize)
+                        ? `Too large to preview (${sizeMB}MB), convert it without a preview to stream it`
+                        : `Too large to convert in memory (${sizeMB}MB), enable streaming to convert it in chunks`
+                }
+            };
+        }
+        
+        try {
+            // Read file content
+            const raw = await fs.readFile(filePath);
+            const rawBuffer = Buffer.from(raw);
+            
+            // Never decode binary content, even with a manual source encoding: writing it back as text destroys it
+            const binary = sniffBinary(rawBuffer);
+            if (binary) {
+                log(`Skipping ${fileName}: binary content detected (${binary})`, 'warn');
+                return {
+                    result: {
+                        success: false,
+                        filePath,
+                        skipped: true,
+                        skipReason: `Binary content detected (${binary})`
+                    }
+                };
+            }
+            
+            // Check for extremely large files (>50MB) and warn
+            if (rawBuffer.length > 50 * 1024 * 1024) {
+                const sizeMB = (rawBuffer.length / (1024 * 1024)).toFixed(1);
+                log(`Warning: Processing very large file (${sizeMB}MB): ${fileName}`, 'warn');
+            }
+            
+            // Detect or use provided encoding
+            let detectedEncoding: string;
+            let confidence: number;
+            let method: string;
+            let runnersUp: EncodingCandidate[] | undefined;
+            
+            if (sourceEncoding) {
+                detectedEncoding = splitBomEncoding(sourceEncoding).encoding.toLowerCase();
+                confidence = 1.0;
+                method = 'manual';
+            } else {
+                // The content is already in memory, detection does not need to read it again
+                const detection = await detectFileEncoding(filePath, rawBuffer);
+                detectedEncoding = detection.encoding;
+                confidence = detection.confidence;
+                method = detection.method;
+                runnersUp = detection.candidates?.slice(1);
+            }
+            
+            log(`Detected encoding: ${detectedEncoding} (confidence: ${confidence}, method: ${method})`);
+            
+            // "UTF-8 with BOM" is UTF-8 plus the mark, iconv only knows the former
+            const target = splitBomEncoding(targetEncoding);
+            const encodeAs = target.encoding;
+            const sourceBOM = detectBOM(rawBuffer);
+            const writeBOM = shouldWriteBOM(encodeAs, target.withBOM, sourceBOM, config);
+            const bomChange = sourceBOM && !writeBOM ? 'removed' : !sourceBOM && writeBOM ? 'added' : undefined;
+            
+            // Check if already in target encoding
+            const normalizedDetected = normalizeEncoding(detectedEncoding);
+            const normalizedTarget = normalizeEncoding(encodeAs);
+            
+            if (normalizedDetected === normalizedTarget) {
+                // Double-check by trying to decode, the BOM has to match the policy as well
+                try {
+                    const testText = iconv.decode(rawBuffer, normalizedTarget);
+                    const reencoded = encodeText(testText, normalizedTarget, writeBOM);
+                    const eolCheck = normalizeLineEndings(testText, eolMode);
+                    if (Buffer.compare(rawBuffer, reencoded) === 0 && eolCheck.changed === 0) {
+                        return {
+                            result: {
+                                success: true,
+                                filePath,
+                                originalEncoding: detectedEncoding,
+                                targetEncoding,
+                                fileSize: fileSize,
+                                skipped: true,
+                                skipReason: 'Already in target encoding',
+                                lineEndings: eolCheck.inventory,
+                                eolPolicy: eolMode,
+                                linesChanged: 0
+                            }
+                        };
+                    }
+                } catch (error) {
+                    log(`Target encoding verification failed: ${error}`, 'warn');
+                }
+            }
+            
+            // Decode from source encoding
+            let text: string;
+            try {
+                text = iconv.decode(rawBuffer, detectedEncoding);
+            } catch (error) {
+                log(`Decode failed with ${detectedEncoding}, trying with error handling: ${error}`, 'warn');
+                try {
+                    text = iconv.decode(rawBuffer, detectedEncoding, { stripBOM: true });
+                } catch (fallbackError) {
+                    throw new Error(`Failed to decode file: ${fallbackError}`);
+                }
+            }
+            
+            // Line endings are rewritten on the decoded text, so multi-byte encodings like UTF-16 stay intact
+            const eol = normalizeLineEndings(text, eolMode);
+            if (eol.changed > 0) {
+                log(`${fileName}: ${eol.changed} line ending(s) rewritten (${eolMode})`);
+            }
+            
+            // Handle characters the target cannot represent, iconv would silently write '?'
+            const unmappable = applyUnmappablePolicy(
+                eol.text,
+                encodeAs,
+                policy,
+                config.unmappableSubstitute,
+                hasDecodeLoss(rawBuffer, text, detectedEncoding)
+            );
+            if (unmappable.count > 0) {
+                log(`${fileName}: ${unmappable.count} unmappable character(s) handled with policy '${policy}'`, 'warn');
+            }
+            
+            // Encode to target encoding
+            let encodedBuffer: Buffer;
+            try {
+                encodedBuffer = encodeText(unmappable.text, encodeAs, writeBOM);
+            } catch (error) {
+                throw new Error(`Failed to encode to ${targetEncoding}: ${error}`);
+            }
+
+            // Verify the round-trip before touching the file, a lossy result is never written
+            const verification = verifyConversion(rawBuffer, text, unmappable.text, detectedEncoding, encodeAs);
+            if (!verification.lossless) {
+                log(`${fileName}: ${verification.error}`, 'warn');
+                return {
+                    result: {
+                        success: false,
+                        filePath,
+                        originalEncoding: detectedEncoding,
+                        targetEncoding,
+                        fileSize: fileSize,
+                        error: verification.error,
+                        lossy: true,
+                        lossyCharacters: verification.lossyCharacters,
+                        detectedOriginalEncoding: detectedEncoding,
+                        runnersUp,
+                        unmappablePolicy: policy,
+                        lineEndings: eol.inventory,
+                        eolPolicy: eolMode,
+                        linesChanged: eol.changed
+                    },
+                    rawBuffer,
+                    originalText: text,
+                    convertedText: unmappable.text
+                };
+            }
+
+            return {
+                result: {
+                    success: true,
+                    filePath,
+                    originalEncoding: detectedEncoding,
+                    targetEncoding,
+                    fileSize: fileSize,
+                    detectedOriginalEncoding: detectedEncoding,
+                    runnersUp,
+                    unmappablePolicy: policy,
+                    unmappableCount: unmappable.count,
+                    bomChange,
+                    lineEndings: eol.inventory,
+                    eolPolicy: eolMode,
+                    linesChanged: eol.changed
+                },
+                rawBuffer,
+                originalText: text,
+                convertedText: unmappable.text,
+                encodedBuffer
+            };
+            
+        } catch (error) {
+            const errorMessage = `Conversion failed: ${error}`;
+            log(errorMessage, 'error');
+            
+            return {
+                result: {
+                    success: false,
+                    filePath,
+                    originalEncoding: sourceEncoding,
+                    targetEncoding,
+                    fileSize: fileSize,
+                    error: errorMessage
+                }
+            };
+        }
+    }
+
+    /**
+     * Write a prepared conversion to disk, creating a backup first if enabled
+     */
+    async function writePreparedConversion(filePath: string, prepared: PreparedConversion): Promise<ConversionResult> {
+        const config = getConfig();
+        const { result, encodedBuffer } = prepared;
+        if (!encodedBuffer) {
+            return result;
+        }
+        
+        try {
+            // Create backup if enabled
+            let backup: BackupEntry | undefined;
+            if (config.createBackup) {
+                backup = await createBackup(filePath, result.originalEncoding, result.targetEncoding);
+            }
+
+            // Write converted content
+            await writeFileAtomically(filePath, encodedBuffer);
+            
+            log(`Successfully converted ${path.basename(filePath)} from ${result.originalEncoding} to ${result.targetEncoding}`);
+            
+            return {
+                ...result,
+                backupCreated: backup !== undefined,
+                backupId: backup?.id,
+                contentHash: hashContent(encodedBuffer)
+            };
+        } catch (error) {
+            const errorMessage = `Conversion failed: ${error}`;
+            log(errorMessage, 'error');
+            
+            return {
+                success: false,
+                filePath: result.filePath,
+                originalEncoding: result.originalEncoding,
+                targetEncoding: result.targetEncoding,
+                fileSize: result.fileSize,
+                error: errorMessage
+            };
+        }
+    }
+
+    /**
+     * Convert a large file chunk by chunk into a temporary sibling, memory use does not grow with the file
+     * Detection only sees the leading sample. Never asks anything, so unattended batches are not interrupted
+     */
+    async function stageStreamedConversion(
+        filePath: string,
+        fileSize: number,
+        sourceEncoding: string | undefined,
+        targetEncoding: string,
+        unmappablePolicy: UnmappablePolicy | undefined,
+        eolPolicy: EolPolicy | undefined,
+        purpose: string,
+        onProgress?: (bytesProcessed: number, totalBytes: number) => void,
+        isCancelled?: () => boolean
+    ): Promise<StagedConversion> {
+        const config = getConfig();
+        const policy = unmappablePolicy ?? config.unmappablePolicy;
+        const eolMode = eolPolicy ?? config.eolPolicy;
+        const fileName = path.basename(filePath);
+        const cancelled: StagedConversion = {
+            result: { success: false, filePath, fileSize, skipped: true, skipReason: 'Cancelled by user' }
+        };
+        
+        log(`Starting streamed conversion: ${fileName} (${(fileSize / (1024 * 1024)).toFixed(1)}MB)`);
+        
+        const processCheck = shouldProcessFile(filePath, config);
+        if (!processCheck.shouldProcess) {
+            return { result: { success: false, filePath, skipped: true, skipReason: processCheck.reason } };
+        }
+        
+        let stagedPath: string | undefined;
+        try {
+            const sample = await readFileSample(filePath, fileSize);
+            const binary = sniffBinary(sample);
+            if (binary) {
+                log(`Skipping ${fileName}: binary content detected (${binary})`, 'warn');
+                return { result: { success: false, filePath, skipped: true, skipReason: `Binary content detected (${binary})` } };
+            }
+            
+            let detectedEncoding: string;
+            let runnersUp: EncodingCandidate[] | undefined;
+            if (sourceEncoding) {
+                detectedEncoding = splitBomEncoding(sourceEncoding).encoding.toLowerCase();
+                log(`Detected encoding: ${detectedEncoding} (confidence: 1, method: manual)`);
+            } else {
+                const detection = await detectFileEncoding(filePath, sample);
+                detectedEncoding = detection.encoding;
+                runnersUp = detection.candidates?.slice(1);
+                log(`Detected encoding: ${detectedEncoding} (confidence: ${detection.confidence}, method: ${sampledMethod(detection.method)})`);
+            }
+            
+            const target = splitBomEncoding(targetEncoding);
+            const sourceBOM = detectBOM(sample);
+            const writeBOM = shouldWriteBOM(target.encoding, target.withBOM, sourceBOM, config);
+            const bomChange = sourceBOM && !writeBOM ? 'removed' : !sourceBOM && writeBOM ? 'added' : undefined;
+            
+            // The majority policy needs the counts of the whole file first, an extra pass that counts towards progress
+            let eol: string | undefined;
+            let totalBytes = fileSize;
+            let passOffset = 0;
+            if (eolMode === 'lf') {
+                eol = '\n';
+            } else if (eolMode === 'crlf') {
+                eol = '\r\n';
+            } else if (eolMode === 'majority') {
+                totalBytes = fileSize * 2;
+                const inventory = await scanLineEndings(
+                    openReadStream(filePath),
+                    detectedEncoding,
+                    bytes => onProgress?.(bytes, totalBytes),
+                    isCancelled
+                );
+                if (!inventory) {
+                    return cancelled;
+                }
+                eol = majorityLineEnding(inventory);
+                passOffset = fileSize;
+            }
+            
+            stagedPath = tempSibling(filePath, purpose);
+            const transcoded = await transcodeStream(openReadStream(filePath), await openWriteStream(stagedPath), {
+                sourceEncoding: detectedEncoding,
+                targetEncoding: target.encoding,
+                writeBOM,
+                eol,
+                unmappablePolicy: policy,
+                substitute: config.unmappableSubstitute,
+                onProgress: bytes => onProgress?.(passOffset + bytes, totalBytes),
+                isCancelled
+            });
+            
+            const result: ConversionResult = {
+                success: true,
+                filePath,
+                originalEncoding: detectedEncoding,
+                targetEncoding,
+                fileSize,
+                detectedOriginalEncoding: detectedEncoding,
+                runnersUp,
+                unmappablePolicy: policy,
+                unmappableCount: transcoded.unmappableCount,
+                bomChange,
+                lineEndings: transcoded.lineEndings,
+                eolPolicy: eolMode,
+                linesChanged: transcoded.linesChanged
+            };
+            
+            if (transcoded.cancelled || !transcoded.lossless || transcoded.unchanged) {
+                await fs.delete(stagedPath).catch(() => undefined);
+                if (transcoded.cancelled) {
+                    log(`Streamed conversion of ${fileName} cancelled by user`, 'warn');
+                    return cancelled;
+                }
+                if (!transcoded.lossless) {
+                    log(`${fileName}: ${transcoded.error}`, 'warn');
+                    return {
+                        result: {
+                            ...result,
+                            success: false,
+                            error: transcoded.error,
+                            lossy: true,
+                            lossyCharacters: transcoded.lossyCharacters,
+                            unmappableCount: undefined,
+                            bomChange: undefined
+                        }
+                    };
+                }
+                return { result: { ...result, skipped: true, skipReason: 'Already in target encoding', bomChange: undefined } };
+            }
+            
+            if (transcoded.unmappableCount > 0) {
+                log(`${fileName}: ${transcoded.unmappableCount} unmappable character(s) handled with policy '${policy}'`, 'warn');
+            }
+            if (transcoded.linesChanged > 0) {
+                log(`${fileName}: ${transcoded.linesChanged} line ending(s) rewritten (${eolMode})`);
+            }
+            return { result: { ...result, contentHash: transcoded.contentHash }, stagedPath };
+        } catch (error) {
+            if (stagedPath) {
+                await fs.delete(stagedPath).catch(() => undefined);
+            }
+            const errorMessage = `Conversion failed: ${error}`;
+            log(errorMessage, 'error');
+            return { result: { success: false, filePath, originalEncoding: sourceEncoding, targetEncoding, fileSize, error: errorMessage } };
+        }
+    }
+
+    /**
+     * Convert file with comprehensive error handling
+     * Files from the streaming threshold on are converted in chunks, onProgress and isCancelled only apply to those
+     */
+    async function convertFile(
+        filePath: string,
+        sourceEncoding?: string,
+        targetEncoding: string = 'utf8',
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        onProgress?: (bytesProcessed: number, totalBytes: number) => void,
+        isCancelled?: () => boolean
+    ): Promise<ConversionResult> {
+        const fileSize = await getFileSize(filePath);
+        if (!isStreamed(fileSize)) {
+            const prepared = await prepareConversion(filePath, sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy);
+            return writePreparedConversion(filePath, prepared);
+        }
+        
+        const { result, stagedPath } = await stageStreamedConversion(
+            filePath, fileSize, sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy, 'write', onProgress, isCancelled
+        );
+        if (!stagedPath) {
+            return result;
+        }
+        
+        try {
+            let backup: BackupEntry | undefined;
+            if (getConfig().createBackup) {
+                backup = await createBackup(filePath, result.originalEncoding, result.targetEncoding);
+            }
+            await fs.rename(stagedPath, filePath);
+            
+            log(`Successfully converted ${path.basename(filePath)} from ${result.originalEncoding} to ${result.targetEncoding}`);
+            return { ...result, backupCreated: backup !== undefined, backupId: backup?.id };
+        } catch (error) {
+            await fs.delete(stagedPath).catch(() => undefined);
+            const errorMessage = `Conversion failed: ${error}`;
+            log(errorMessage, 'error');
+            return {
+                success: false,
+                filePath,
+                originalEncoding: result.originalEncoding,
+                targetEncoding: result.targetEncoding,
+                fileSize,
+                error: errorMessage
+            };
+        }
+    }
+
+    /**
+     * Add or remove only the byte-order mark, the rest of the file is left byte for byte
+     */
+    async function setByteOrderMark(filePath: string, addBOM: boolean): Promise<ConversionResult> {
+        const processCheck = shouldProcessFile(filePath, getConfig());
+        if (!processCheck.shouldProcess) {
+            return { success: false, filePath, skipped: true, skipReason: processCheck.reason };
+        }
+        
+        try {
+            const rawBuffer = Buffer.from(await fs.readFile(filePath));
+            const existing = detectBOM(rawBuffer);
+            let encoding: string;
+            let content: Buffer;
+            
+            if (addBOM) {
+                if (existing) {
+                    return { success: true, filePath, originalEncoding: existing, targetEncoding: existing, skipped: true, skipReason: 'Already has a byte order mark' };
+                }
+                const binary = sniffBinary(rawBuffer);
+                if (binary) {
+                    return { success: false, filePath, skipped: true, skipReason: `Binary content detected (${binary})` };
+                }
+                const detection = await detectEncoding(filePath);
+                // ASCII is valid UTF-8, a BOM makes that explicit
+                encoding = detection.encoding === 'ascii' ? 'utf-8' : normalizeEncoding(detection.encoding);
+                const bom = bomFor(encoding);
+                if (!bom) {
+                    return { success: false, filePath, originalEncoding: encoding, error: `${encoding.toUpperCase()} has no byte order mark, only Unicode encodings do` };
+                }
+                content = Buffer.concat([bom, rawBuffer]);
+            } else {
+                if (!existing) {
+                    return { success: true, filePath, skipped: true, skipReason: 'Has no byte order mark' };
+                }
+                encoding = existing;
+                content = stripBOMBytes(rawBuffer);
+            }
+            
+            return writePreparedConversion(filePath, {
+                result: {
+                    success: true,
+                    filePath,
+                    originalEncoding: encoding,
+                    targetEncoding: encoding,
+                    fileSize: rawBuffer.length,
+                    detectedOriginalEncoding: encoding,
+                    bomChange: addBOM ? 'added' : 'removed'
+                },
+                rawBuffer,
+                encodedBuffer: content
+            });
+        } catch (error) {
+            const errorMessage = `Changing the byte order mark failed: ${error}`;
+            log(errorMessage, 'error');
+            return { success: false, filePath, error: errorMessage };
+        }
+    }
+
+    /**
+     * Convert a set of files as one transaction
+     * All outputs are staged next to their originals first; the originals are only replaced
+     * when every file converted cleanly, and put back if replacing one of them fails
+     */
+    async function convertFilesTransactionally(
+        filePaths: string[],
+        sourceEncoding?: string,
+        targetEncoding?: string,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        onProgress?: (filePath: string, processed: number, total: number) => void,
+        isCancelled?: () => boolean,
+        onFileProgress?: (filePath: string, bytesProcessed: number, totalBytes: number) => void
+    ): Promise<BatchConversionResult> {
+        const config = getConfig();
+        const results: ConversionResult[] = [];
+        const staged: { result: ConversionResult; stagedPath: string; displacedPath?: string; backup?: BackupEntry }[] = [];
+        let rollbackReason: string | undefined;
+        
+        // Phase 1: convert in memory, or streamed for large files, and stage every output in a temporary sibling
+        for (const filePath of filePaths) {
+            if (isCancelled?.()) {
+                rollbackReason = 'cancelled by user';
+                break;
+            }
+            
+            // Without a target every file goes to the encoding expected for it
+            const target = targetEncoding ?? await expectedEncodingFor(filePath);
+            const fileSize = await getFileSize(filePath);
+            const prepared: PreparedConversion & StagedConversion = isStreamed(fileSize)
+                ? await stageStreamedConversion(
+                    filePath, fileSize, sourceEncoding, target, unmappablePolicy, eolPolicy, 'staged',
+                    (bytes, total) => onFileProgress?.(filePath, bytes, total), isCancelled
+                )
+                : await prepareConversion(filePath, sourceEncoding, target, unmappablePolicy, eolPolicy);
+            results.push(prepared.result);
+            onProgress?.(filePath, results.length, filePaths.length);
+            
+            if (prepared.result.lossy) {
+                rollbackReason = `${path.basename(filePath)} would lose data`;
+                break;
+            }
+            if (!prepared.result.success && !prepared.result.skipped) {
+                rollbackReason = `${path.basename(filePath)} failed: ${prepared.result.error}`;
+                break;
+            }
+            if (prepared.stagedPath) {
+                staged.push({ result: prepared.result, stagedPath: prepared.stagedPath });
+                continue;
+            }
+            if (!prepared.encodedBuffer) {
+                continue;
+            }
+            
+            const stagedPath = tempSibling(filePath, 'staged');
+            try {
+                await fs.writeFile(stagedPath, prepared.encodedBuffer);
+                staged.push({
+                    result: { ...prepared.result, contentHash: hashContent(prepared.encodedBuffer) },
+                    stagedPath
+                });
+            } catch (error) {
+                rollbackReason = `could not stage ${path.basename(filePath)}: ${error}`;
+                break;
+            }
+        }
+        
+        // A streamed file may have stopped half-way through the last iteration
+        if (!rollbackReason && isCancelled?.()) {
+            rollbackReason = 'cancelled by user';
+        }
+        
+        // Phase 2: back up and swap the staged outputs in, keeping the displaced originals
+        if (!rollbackReason) {
+            for (const entry of staged) {
+                const filePath = entry.result.filePath;
+                try {
+                    if (config.createBackup) {
+                        entry.backup = await createBackup(filePath, entry.result.originalEncoding, entry.result.targetEncoding);
+                    }
+                    const displacedPath = tempSibling(filePath, 'original');
+                    await fs.rename(filePath, displacedPath);
+                    entry.displacedPath = displacedPath;
+                    await fs.rename(entry.stagedPath, filePath);
+                } catch (error) {
+                    rollbackReason = `could not replace ${path.basename(filePath)}: ${error}`;
+                    break;
+                }
+            }
+        }
+        
+        if (rollbackReason) {
+            log(`Transactional batch rolled back: ${rollbackReason}`, 'warn');
+            for (const entry of staged) {
+                const filePath = entry.result.filePath;
+                try {
+                    if (entry.displacedPath) {
+                        await fs.rename(entry.displacedPath, filePath);
+                    }
+                    if (entry.backup) {
+                        await backups.remove(entry.backup);
+                    }
+                } catch (error) {
+                    log(`Rollback of ${filePath} failed, original kept at ${entry.displacedPath}: ${error}`, 'error');
+                }
+                await fs.delete(entry.stagedPath).catch(() => undefined);
+            }
+        } else {
+            for (const entry of staged) {
+                if (entry.displacedPath) {
+                    await fs.delete(entry.displacedPath).catch(error => log(`Could not remove ${entry.displacedPath}: ${error}`, 'warn'));
+                }
+            }
+            log(`Transactional batch committed: ${staged.length} file(s) converted`);
+        }
+        
+        // Report the final state of each staged file
+        const finalResults = results.map(result => {
+            const entry = staged.find(s => s.result.filePath === result.filePath);
+            if (!entry) {
+                return result;
+            }
+            if (rollbackReason) {
+                return { ...entry.result, success: false, rolledBack: true, error: `Rolled back: ${rollbackReason}` };
+            }
+            return { ...entry.result, backupCreated: entry.backup !== undefined, backupId: entry.backup?.id };
+        });
+        
+        return {
+            totalFiles: filePaths.length,
+            processed: finalResults.length,
+            converted: rollbackReason ? 0 : staged.length,
+            skipped: finalResults.filter(r => r.skipped).length,
+            errors: finalResults.filter(r => !r.success && !r.skipped && !r.lossy && !r.rolledBack).length,
+            lossy: finalResults.filter(r => r.lossy).length,
+            results: finalResults,
+            transaction: rollbackReason ? 'rolled-back' : 'committed',
+            rollbackReason
+        };
+    }
+
+    /**
+     * Get all files in directory recursively
+     */
+    async function getFilesInDirectory(dirPath: string): Promise<string[]> {
+        return (await collectFiles(dirPath)).files;
+    }
+
+    /**
+     * Read the .gitignore of a directory, if there is one
+     */
+    async function readGitignore(dirPath: string): Promise<IgnoreRule[]> {
+        try {
+            const content = await fs.readFile(path.join(dirPath, '.gitignore'));
+            return parseGitignore(Buffer.from(content).toString('utf8'), dirPath);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * .gitignore rules of the directories between the repository root and dirPath
+     * Outside a git repository only the .gitignore files below dirPath apply
+     */
+    async function readParentGitignores(dirPath: string): Promise<IgnoreRule[]> {
+        const parents: string[] = [];
+        let dir = dirPath;
+        while (true) {
+            try {
+                await fs.stat(path.join(dir, '.git'));
+                break;
+            } catch (error) {
+                // Not the repository root yet
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return [];
+            }
+            dir = parent;
+            parents.unshift(dir);
+        }
+        const rules: IgnoreRule[] = [];
+        for (const parent of parents) {
+            rules.push(...await readGitignore(parent));
+        }
+        return rules;
+    }
+
+    /**
+     * Collect the files below a directory that should be processed
+     * Excluded folders are not entered; every file or folder left out is counted under the rule that excluded it
+     */
+    async function collectFiles(dirPath: string): Promise<FileCollection> {
+        const config = getConfig();
+        const collection: FileCollection = { files: [], excluded: {} };
+        const root = host.getWorkspaceRoot?.(dirPath) ?? dirPath;
+        const hostExcludes = host.getExcludePatterns?.(root) ?? [];
+        
+        const exclude = (rule: string, type: 'file' | 'directory') => {
+            const count = collection.excluded[rule] ?? (collection.excluded[rule] = { files: 0, folders: 0 });
+            if (type === 'file') {
+                count.files++;
+            } else {
+                count.folders++;
+            }
+        };
+        
+        // Editor excludes such as files.exclude, folders are matched as a whole
+        const hostExcludeReason = (relativePath: string, isDirectory: boolean): string | undefined => {
+            for (const { source, patterns } of hostExcludes) {
+                const pattern = patterns.find(p => isDirectory ? matchesDirectory(relativePath, p) : matchesGlob(relativePath, p));
+                if (pattern) {
+                    return `Excluded by ${source}: ${pattern}`;
+                }
+            }
+            return undefined;
+        };
+        
+        const walk = async (dir: string, inheritedRules: IgnoreRule[]): Promise<void> => {
+            const ignoreRules = config.respectGitignore ? [...inheritedRules, ...await readGitignore(dir)] : inheritedRules;
+            
+            let entries: [string, FileEntryType][];
+            try {
+                entries = await fs.readDirectory(dir);
+            } catch (error) {
+                log(`Error reading directory ${dir}: ${error}`, 'error');
+                return;
+            }
+            
+            for (const [name, type] of entries) {
+                if (type !== 'file' && type !== 'directory') {
+                    continue;
+                }
+                const childPath = path.join(dir, name);
+                const relativePath = toRelativePath(root, childPath) ?? name;
+                const isDirectory = type === 'directory';
+                
+                let reason: string | undefined;
+                if (isDirectory) {
+                    const pattern = config.excludePatterns.find(p => matchesDirectory(relativePath, p));
+                    reason = pattern ? `Excluded by pattern: ${pattern}` : undefined;
+                } else {
+                    const processCheck = shouldProcessFile(childPath, config);
+                    reason = processCheck.shouldProcess ? undefined : processCheck.reason;
+                }
+                reason = reason ?? hostExcludeReason(relativePath, isDirectory);
+                if (!reason) {
+                    const ignored = findIgnoringRule(ignoreRules, childPath, isDirectory);
+                    reason = ignored ? `Ignored by .gitignore: ${ignored.pattern}` : undefined;
+                }
+                
+                if (reason) {
+                    exclude(reason, type);
+                } else if (isDirectory) {
+                    await walk(childPath, ignoreRules);
+                } else {
+                    collection.files.push(childPath);
+                }
+            }
+        };
+        
+        await walk(dirPath, config.respectGitignore ? await readParentGitignores(dirPath) : []);
+        return collection;
+    }
+
+    /**
+     * Stored versions of a file (or of all files), newest first
+     */
+    async function listBackups(filePath?: string): Promise<BackupEntry[]> {
+        return backups.list(filePath);
+    }
+
+    /**
+     * Find the most recent stored version of a file
+     */
+    async function findLatestBackup(filePath: string): Promise<BackupEntry | undefined> {
+        const versions = await backups.list(filePath);
+        return versions[0];
+    }
+
+    /**
+     * Write a stored version back to its original path
+     * Undo removes the version afterwards, restoring an older version keeps it
+     */
+    async function restoreBackup(entry: BackupEntry, keepBackup: boolean = false, backupCurrent: boolean = false): Promise<void> {
+        // The chosen version is read before the current content is backed up, that backup's
+        // retention may remove the chosen version from the store
+        if (isStreamed(entry.size)) {
+            const tempPath = tempSibling(entry.originalPath, 'restore');
+            try {
+                await backups.copyTo(entry, tempPath);
+                if (backupCurrent) {
+                    await createBackup(entry.originalPath);
+                }
+                await fs.rename(tempPath, entry.originalPath);
+            } catch (error) {
+                await fs.delete(tempPath).catch(() => undefined);
+                throw error;
+            }
+        } else {
+            const backupContent = await backups.read(entry);
+            if (backupCurrent) {
+                await createBackup(entry.originalPath);
+            }
+            await writeFileAtomically(entry.originalPath, backupContent);
+        }
+        if (!keepBackup) {
+            await backups.remove(entry);
+        }
+        log(`Restored ${path.basename(entry.originalPath)} from backup of ${new Date(entry.timestamp).toISOString()}`);
+    }
+
+    return {
+        shouldProcessFile,
+        detectEncoding,
+        findRule,
+        matchesWorkspaceGlob,
+        editorConfigCharset,
+        expectedEncodingFor,
+        writeEditorConfigCharset,
+        analyzeFile,
+        previewEncodings,
+        analyzeMixedEncoding,
+        prepareMixedRepair,
+        suggestMojibakeRepairs,
+        prepareMojibakeRepair,
+        reinterpretFileRange,
+        prepareConversion,
+        writePreparedConversion,
+        convertFile,
+        isStreamed,
+        convertFilesTransactionally,
+        writeFileAtomically,
+        setByteOrderMark,
+        getFilesInDirectory,
+        collectFiles,
+        createBackup,
+        listBackups,
+        findLatestBackup,
+        restoreBackup,
+        hashFile
+    };
+}
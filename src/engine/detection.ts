@@ -0,0 +1,216 @@
+/**
+ * Encoding detection
+ * A BOM decides outright. Otherwise every detector votes (the editor, jschardet, detect-file-encoding-and-language)
+ * and each candidate encoding is scored on the evidence: how cleanly the content decodes, whether the decoded
+ * characters are plausible for the language the encoding is used for, and the votes. Candidates come back ranked.
+ */
+
+import * as iconv from 'iconv-lite';
+import * as jschardet from 'jschardet';
+import detectFile from 'detect-file-encoding-and-language';
+import { wideTextEncoding } from './binary';
+import { detectBOM, normalizeEncoding } from './encoding';
+import { languageOf, plausibility } from './plausibility';
+import { trimToLineBoundary } from './streaming';
+import { EncodingCandidate, EncodingDetection, LogLevel } from './types';
+
+// Legacy encodings that are always scored, besides whatever the detectors propose
+const legacyCandidates = ['big5', 'gbk', 'gb18030', 'shift_jis', 'euc-jp', 'euc-kr', 'windows-1252'];
+
+// Bytes the candidates are scored on, decoding whole large files once per candidate is too slow
+const evidenceSize = 256 * 1024;
+
+// Candidates kept in the ranking
+const maxCandidates = 5;
+
+/**
+ * Name a detector's answer the way the candidates are named
+ * Detectors name the GB family interchangeably; GBK gets the vote and GB18030 only wins on content,
+ * when the four-byte sequences GBK cannot decode are there
+ */
+function candidateName(encoding: string): string {
+    const normalized = normalizeEncoding(encoding);
+    if (normalized === 'gb2312' || normalized === 'gb18030') {
+        return 'gbk';
+    }
+    return normalized;
+}
+
+/**
+ * The part of the content candidates are scored on
+ * When the first bytes of a large file are plain ASCII, the window starts at the line of the first non-ASCII byte
+ */
+function evidenceWindow(rawBuffer: Buffer): Buffer {
+    if (rawBuffer.length <= evidenceSize) {
+        return rawBuffer;
+    }
+    const head = trimToLineBoundary(rawBuffer.subarray(0, evidenceSize));
+    // Wide encodings have no byte-aligned line starts to cut at
+    if (head.some(byte => byte >= 0x80 || byte === 0)) {
+        return head;
+    }
+    const firstNonAscii = rawBuffer.findIndex(byte => byte >= 0x80);
+    if (firstNonAscii < 0) {
+        return head;
+    }
+    const lineStart = rawBuffer.lastIndexOf(0x0A, firstNonAscii) + 1;
+    return trimToLineBoundary(rawBuffer.subarray(lineStart, lineStart + evidenceSize));
+}
+
+/**
+ * Score every candidate encoding of raw content, best first
+ * editorEncoding is what the editor already decided for an open document, if anything
+ */
+export async function rankEncodings(
+    rawBuffer: Buffer,
+    log: (message: string, level?: LogLevel) => void,
+    editorEncoding?: string
+): Promise<EncodingCandidate[]> {
+    const sample = evidenceWindow(rawBuffer);
+
+    // Votes of independent detectors combine like probabilities: two at 0.5 make 0.75
+    const votes = new Map<string, { weight: number; reasons: string[] }>();
+    const vote = (encoding: string, weight: number, reason: string) => {
+        const name = candidateName(encoding);
+        const entry = votes.get(name) ?? { weight: 0, reasons: [] };
+        entry.weight = 1 - (1 - entry.weight) * (1 - Math.min(1, Math.max(0, weight)));
+        entry.reasons.push(reason);
+        votes.set(name, entry);
+    };
+
+    // VS Code reports UTF-8 for everything it did not guess, only other answers carry information
+    if (editorEncoding && candidateName(editorEncoding) !== 'utf-8') {
+        vote(editorEncoding, 1, 'opened with this encoding in the editor');
+    }
+
+    try {
+        for (const result of jschardet.detectAll(sample)) {
+            if (result.encoding && result.confidence > 0) {
+                vote(result.encoding, result.confidence, `jschardet ${(result.confidence * 100).toFixed(0)}%`);
+            }
+        }
+    } catch (error) {
+        log(`jschardet failed: ${error}`, 'warn');
+    }
+
+    try {
+        const info = await detectFile(sample);
+        if (info.encoding) {
+            const language = info.language ? `, ${info.language}` : '';
+            vote(info.encoding, info.confidence?.encoding ?? 0.8, `detect-file-encoding-and-language${language}`);
+        }
+    } catch (error) {
+        log(`detect-file-encoding-and-language failed: ${error}`, 'warn');
+    }
+
+    const wide = sample.includes(0) ? wideTextEncoding(sample) : undefined;
+    const names = new Set(['utf-8', ...(wide ? [wide] : []), ...legacyCandidates, ...votes.keys()]);
+
+    const candidates: EncodingCandidate[] = [];
+    for (const encoding of names) {
+        if (!iconv.encodingExists(encoding)) {
+            continue;
+        }
+        let text: string;
+        try {
+            text = iconv.decode(sample, encoding);
+        } catch (error) {
+            continue;
+        }
+
+        const reasons: string[] = [];
+        let nonAscii = 0;
+        let errors = 0;
+        for (let i = 0; i < text.length; i++) {
+            const code = text.charCodeAt(i);
+            if (code >= 0x80) {
+                nonAscii++;
+                if (code === 0xFFFD) {
+                    errors++;
+                }
+            }
+        }
+        const validity = nonAscii === 0 ? 1 : 1 - errors / nonAscii;
+
+        let plausible: number;
+        if (encoding === 'utf-8') {
+            // Legacy text almost never happens to be valid UTF-8, valid multi-byte sequences are near proof
+            plausible = errors === 0 ? 1 : 0;
+            reasons.push(errors === 0 ? `valid UTF-8, ${nonAscii} multi-byte character(s)` : `invalid UTF-8, ${errors} bad sequence(s)`);
+        } else if (encoding === wide) {
+            plausible = 1;
+            reasons.push(`zero bytes follow the ${encoding.toUpperCase()} pattern`);
+        } else {
+            // Telling letters from noise says little, frequency lists only exist for the common languages
+            const language = languageOf(encoding);
+            plausible = plausibility(text, language) * (language === 'other' ? 0.5 : 1);
+            reasons.push(errors === 0 ? 'decodes cleanly' : `${errors} undecodable sequence(s)`);
+            reasons.push(language === 'other'
+                ? `${(plausible * 200).toFixed(0)}% of non-ASCII characters are letters or punctuation`
+                : `${(plausible * 100).toFixed(0)}% of non-ASCII characters are common in ${language} text`);
+        }
+
+        const voted = votes.get(encoding);
+        if (voted) {
+            reasons.push(...voted.reasons);
+        }
+
+        // Decode errors rule a candidate out quickly, the rest is content first, detectors second
+        const score = validity * validity * (0.25 + 0.5 * plausible + 0.25 * (voted?.weight ?? 0));
+        candidates.push({ encoding, score: Math.round(score * 1000) / 1000, reasons });
+    }
+
+    // Stable sort keeps the order above on equal scores: UTF-8 first, then the common legacy encodings
+    return candidates.sort((a, b) => b.score - a.score).slice(0, maxCandidates);
+}
+
+/**
+ * Detect the encoding of raw content, the best candidate of the ranking
+ * editorEncoding is what the editor already decided for an open document, if anything
+ */
+export async function detectBufferEncoding(
+    rawBuffer: Buffer,
+    log: (message: string, level?: LogLevel) => void,
+    editorEncoding?: string
+): Promise<EncodingDetection> {
+    // Handle empty files
+    if (rawBuffer.length === 0) {
+        return { encoding: 'utf-8', confidence: 1.0, method: 'empty-file' };
+    }
+
+    // A byte-order mark names the encoding outright, it beats every guess below
+    const bom = detectBOM(rawBuffer);
+    if (bom) {
+        return { encoding: bom, confidence: 1.0, method: 'bom' };
+    }
+
+    // 7-bit content reads the same in every ASCII-compatible encoding
+    if (rawBuffer.every(byte => byte < 0x80 && byte > 0)) {
+        return {
+            encoding: 'ascii',
+            confidence: 1.0,
+            method: 'ascii-only',
+            candidates: [{ encoding: 'ascii', score: 1, reasons: ['only 7-bit bytes'] }]
+        };
+    }
+
+    // Handle very small files (less than 4 bytes)
+    if (rawBuffer.length < 4) {
+        return { encoding: 'utf-8', confidence: 0.7, method: 'small-file' };
+    }
+
+    const candidates = await rankEncodings(rawBuffer, log, editorEncoding);
+    if (candidates.length === 0) {
+        return { encoding: 'utf-8', confidence: 0.5, method: 'default' };
+    }
+
+    const best = candidates[0];
+    const runnerUp = candidates[1];
+    log(`Encoding candidates: ${candidates.map(c => `${c.encoding} ${c.score.toFixed(2)}`).join(', ')}`);
+    return {
+        encoding: best.encoding,
+        confidence: best.score,
+        method: runnerUp ? `ranked, ahead of ${runnerUp.encoding}` : 'ranked',
+        candidates
+    };
+}
@@ -0,0 +1,211 @@
+/**
+ * EditorConfig charset support
+ * Resolves the charset .editorconfig files declare for a path, and writes charset entries.
+ * Only the charset property is read; everything else in the files is left alone.
+ */
+
+import * as path from 'path';
+import { matchesGlob, toRelativePath } from './glob';
+import { normalizeEncoding, splitBomEncoding } from './encoding';
+import { EngineFileSystem } from './types';
+
+interface EditorConfigSection {
+    pattern: string;
+    charset?: string;
+}
+
+interface EditorConfigFile {
+    root: boolean;
+    sections: EditorConfigSection[];
+}
+
+export interface EditorConfigResolver {
+    charsetFor(filePath: string): Promise<string | undefined>;
+    writeCharset(dirPath: string, encoding: string): Promise<string>;
+}
+
+// EditorConfig charset values and the encodings they stand for
+const charsetEncodings: { [charset: string]: string } = {
+    'latin1': 'iso-8859-1',
+    'utf-8': 'utf-8',
+    'utf-8-bom': 'utf-8 with bom',
+    'utf-16be': 'utf-16be',
+    'utf-16le': 'utf-16le'
+};
+
+/**
+ * The EditorConfig charset value for an encoding, undefined if EditorConfig cannot express it
+ */
+export function toEditorConfigCharset(encoding: string): string | undefined {
+    const { encoding: base, withBOM } = splitBomEncoding(encoding);
+    const normalized = normalizeEncoding(base);
+    if (normalized === 'utf-8') {
+        return withBOM ? 'utf-8-bom' : 'utf-8';
+    }
+    if (withBOM) {
+        return undefined;
+    }
+    if (normalized === 'iso-8859-1') {
+        return 'latin1';
+    }
+    return normalized === 'utf-16le' || normalized === 'utf-16be' ? normalized : undefined;
+}
+
+/**
+ * Parse the parts of an .editorconfig file that matter here
+ */
+export function parseEditorConfig(text: string): EditorConfigFile {
+    const file: EditorConfigFile = { root: false, sections: [] };
+    let section: EditorConfigSection | undefined;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) {
+            continue;
+        }
+        const header = /^\[(.+)\]$/.exec(line);
+        if (header) {
+            section = { pattern: header[1] };
+            file.sections.push(section);
+            continue;
+        }
+        const property = /^([^=:]+)[=:](.*)$/.exec(line);
+        if (!property) {
+            continue;
+        }
+        const key = property[1].trim().toLowerCase();
+        const value = property[2].trim().toLowerCase();
+        if (!section && key === 'root') {
+            file.root = value === 'true';
+        } else if (section && key === 'charset') {
+            section.charset = value;
+        }
+    }
+    return file;
+}
+
+/**
+ * Set "charset" in the [*] section of an .editorconfig text, adding the section if needed
+ */
+export function setEditorConfigCharset(text: string, charset: string): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.length > 0 ? text.split(/\r?\n/) : [];
+    const start = lines.findIndex(line => line.trim() === '[*]');
+
+    if (start === -1) {
+        while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+            lines.pop();
+        }
+        if (lines.length > 0) {
+            lines.push('');
+        }
+        lines.push('[*]', `charset = ${charset}`, '');
+        return lines.join(eol);
+    }
+
+    let end = start + 1;
+    while (end < lines.length && !/^\s*\[/.test(lines[end])) {
+        if (/^\s*charset\s*[=:]/i.test(lines[end])) {
+            lines[end] = `charset = ${charset}`;
+            return lines.join(eol);
+        }
+        end++;
+    }
+    lines.splice(start + 1, 0, `charset = ${charset}`);
+    return lines.join(eol);
+}
+
+/**
+ * Create a resolver reading .editorconfig files through the engine's file system
+ * Parsed files are cached by modification time
+ */
+export function createEditorConfigResolver(fs: EngineFileSystem): EditorConfigResolver {
+    const cache = new Map<string, { mtime: number; file: EditorConfigFile | undefined }>();
+
+    async function load(configPath: string): Promise<EditorConfigFile | undefined> {
+        let mtime: number;
+        try {
+            mtime = (await fs.stat(configPath)).mtime;
+        } catch (error) {
+            cache.delete(configPath);
+            return undefined;
+        }
+        const cached = cache.get(configPath);
+        if (cached && cached.mtime === mtime) {
+            return cached.file;
+        }
+        let file: EditorConfigFile | undefined;
+        try {
+            file = parseEditorConfig(Buffer.from(await fs.readFile(configPath)).toString('utf8'));
+        } catch (error) {
+            file = undefined;
+        }
+        cache.set(configPath, { mtime, file });
+        return file;
+    }
+
+    /**
+     * Encoding declared for a file, undefined when no .editorconfig sets a charset for it
+     * Nearer files win over farther ones, later sections over earlier ones, as in the spec
+     */
+    async function charsetFor(filePath: string): Promise<string | undefined> {
+        const chain: { dir: string; file: EditorConfigFile }[] = [];
+        let dir = path.dirname(filePath);
+        while (true) {
+            const file = await load(path.join(dir, '.editorconfig'));
+            if (file) {
+                chain.push({ dir, file });
+                if (file.root) {
+                    break;
+                }
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                break;
+            }
+            dir = parent;
+        }
+
+        let charset: string | undefined;
+        for (const { dir: configDir, file } of chain.reverse()) {
+            const relativePath = toRelativePath(configDir, filePath);
+            if (!relativePath) {
+                continue;
+            }
+            for (const section of file.sections) {
+                if (section.charset && matchesGlob(relativePath, section.pattern)) {
+                    charset = section.charset;
+                }
+            }
+        }
+
+        if (!charset || charset === 'unset') {
+            return undefined;
+        }
+        return charsetEncodings[charset] ?? charset;
+    }
+
+    /**
+     * Write or update the charset entry of the .editorconfig in a directory
+     * Returns the path of the written file
+     */
+    async function writeCharset(dirPath: string, encoding: string): Promise<string> {
+        const charset = toEditorConfigCharset(encoding);
+        if (!charset) {
+            throw new Error(`EditorConfig has no charset value for ${encoding.toUpperCase()}`);
+        }
+        const configPath = path.join(dirPath, '.editorconfig');
+        let text = '';
+        try {
+            text = Buffer.from(await fs.readFile(configPath)).toString('utf8');
+        } catch (error) {
+            // No .editorconfig yet
+            text = 'root = true\n';
+        }
+        await fs.writeFile(configPath, Buffer.from(setEditorConfigCharset(text, charset), 'utf8'));
+        cache.delete(configPath);
+        return configPath;
+    }
+
+    return { charsetFor, writeCharset };
+}
@@ -0,0 +1,478 @@
+/**
+ * Pure encoding helpers shared by the engine, the extension and the CLI
+ * Nothing in here touches the file system or the editor
+ */
+
+import * as iconv from 'iconv-lite';
+import { findEncoding } from './catalogue';
+import { EolPolicy, LineEndingInventory, LineEndingStyle, LossyCharacter, UnmappablePolicy, VerificationResult } from './types';
+
+/**
+ * Normalize encoding name to standard format
+ * Any alias in the catalogue resolves to its entry's name, other names are only lower-cased
+ */
+export function normalizeEncoding(encoding: string): string {
+    const normalized = encoding.toLowerCase().trim();
+    return findEncoding(normalized)?.name ?? normalized;
+}
+
+/**
+ * Check whether a detected encoding satisfies an expected one
+ * Pure ASCII is valid in every ASCII-compatible encoding, so it never counts as a mismatch there
+ */
+export function isEncodingCompatible(detectedEncoding: string, expectedEncoding: string): boolean {
+    const detected = normalizeEncoding(detectedEncoding);
+    const expected = normalizeEncoding(splitBomEncoding(expectedEncoding).encoding);
+    // Binary files are not text in any encoding, so they cannot be in the wrong one
+    if (detected === expected || detected === 'binary') {
+        return true;
+    }
+    // Detectors report Latin-1 text as windows-1252, the two only differ in 0x80-0x9F
+    if (detected === 'windows-1252' && expected === 'iso-8859-1') {
+        return true;
+    }
+    return detected === 'ascii' && !expected.startsWith('utf-16');
+}
+
+// Byte-order marks of the encodings that have one, plain UTF-16 is written little-endian
+const bomSequences: { [encoding: string]: number[] } = {
+    'utf-8': [0xEF, 0xBB, 0xBF],
+    'utf-16': [0xFF, 0xFE],
+    'utf-16le': [0xFF, 0xFE],
+    'utf-16be': [0xFE, 0xFF],
+    'utf-32le': [0xFF, 0xFE, 0x00, 0x00],
+    'utf-32be': [0x00, 0x00, 0xFE, 0xFF]
+};
+
+/**
+ * The byte-order mark of an encoding, undefined for encodings without one
+ */
+export function bomFor(encoding: string): Buffer | undefined {
+    const sequence = bomSequences[normalizeEncoding(encoding)];
+    return sequence ? Buffer.from(sequence) : undefined;
+}
+
+/**
+ * Split pseudo-encodings like "UTF-8 with BOM" into the real encoding and a BOM flag
+ */
+export function splitBomEncoding(encoding: string): { encoding: string; withBOM: boolean } {
+    const match = /^(.*?)[\s-]*(with\s+bom|bom)$/i.exec(encoding.trim());
+    return match && match[1] ? { encoding: match[1], withBOM: true } : { encoding, withBOM: false };
+}
+
+/**
+ * Encode text, with the encoding's BOM in front when asked for
+ * iconv's own addBOM handling differs per codec, so the mark is always added here
+ */
+export function encodeText(text: string, encoding: string, withBOM: boolean): Buffer {
+    const encoded = iconv.encode(text, encoding, { addBOM: false });
+    const bom = withBOM ? bomFor(encoding) : undefined;
+    return bom ? Buffer.concat([bom, encoded]) : encoded;
+}
+
+/**
+ * Strip a UTF-8 / UTF-16 / UTF-32 BOM from raw bytes
+ * iconv drops the BOM on decode and may add one on encode, so compare without it
+ */
+export function stripBOMBytes(buffer: Buffer): Buffer {
+    const bom = detectBOM(buffer);
+    return bom ? buffer.subarray(bomFor(bom)!.length) : buffer;
+}
+
+/**
+ * Name the encoding announced by a byte-order mark, if the buffer starts with one
+ * UTF-32LE must be checked before UTF-16LE, its BOM starts with the same two bytes
+ */
+export function detectBOM(buffer: Buffer): string | undefined {
+    if (buffer.length >= 4 && buffer[0] === 0xFF && buffer[1] === 0xFE && buffer[2] === 0x00 && buffer[3] === 0x00) {
+        return 'utf-32le';
+    }
+    if (buffer.length >= 4 && buffer[0] === 0x00 && buffer[1] === 0x00 && buffer[2] === 0xFE && buffer[3] === 0xFF) {
+        return 'utf-32be';
+    }
+    if (buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF) {
+        return 'utf-8';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFF && buffer[1] === 0xFE) {
+        return 'utf-16le';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFE && buffer[1] === 0xFF) {
+        return 'utf-16be';
+    }
+    return undefined;
+}
+
+/**
+ * Count line endings in decoded text
+ * Works on text rather than bytes so multi-byte encodings like UTF-16 are counted correctly
+ */
+export function countLineEndings(text: string): LineEndingInventory {
+    const counts: LineEndingInventory = { lf: 0, crlf: 0, cr: 0 };
+    for (let i = 0; i < text.length; i++) {
+        const char = text.charCodeAt(i);
+        if (char === 0x0D) {
+            if (text.charCodeAt(i + 1) === 0x0A) {
+                counts.crlf++;
+                i++;
+            } else {
+                counts.cr++;
+            }
+        } else if (char === 0x0A) {
+            counts.lf++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * Summarize line ending counts as a single style
+ */
+export function lineEndingStyle(counts: LineEndingInventory): LineEndingStyle {
+    const styles: LineEndingStyle[] = [];
+    if (counts.lf > 0) {
+        styles.push('LF');
+    }
+    if (counts.crlf > 0) {
+        styles.push('CRLF');
+    }
+    if (counts.cr > 0) {
+        styles.push('CR');
+    }
+    if (styles.length === 0) {
+        return 'none';
+    }
+    return styles.length === 1 ? styles[0] : 'mixed';
+}
+
+/**
+ * Rewrite the line endings of decoded text according to an EOL policy
+ * "majority" uses the most common ending of the text, LF on a tie
+ */
+export function normalizeLineEndings(text: string, policy: EolPolicy): { text: string; changed: number; inventory: LineEndingInventory } {
+    const inventory = countLineEndings(text);
+    if (policy === 'keep') {
+        return { text, changed: 0, inventory };
+    }
+    
+    let eol: string;
+    if (policy === 'lf') {
+        eol = '\n';
+    } else if (policy === 'crlf') {
+        eol = '\r\n';
+    } else {
+        const most = Math.max(inventory.lf, inventory.crlf, inventory.cr);
+        eol = inventory.lf === most ? '\n' : inventory.crlf === most ? '\r\n' : '\r';
+    }
+    
+    let changed = 0;
+    const normalized = text.replace(/\r\n|\r|\n/g, ending => {
+        if (ending !== eol) {
+            changed++;
+        }
+        return eol;
+    });
+    return { text: normalized, changed, inventory };
+}
+
+/**
+ * Length of a string in code points, the unit columns are counted in
+ */
+export function codePointLength(text: string): number {
+    let length = 0;
+    for (const _ of text) {
+        length++;
+    }
+    return length;
+}
+
+/**
+ * Line breaks in some text and the column just past it, a CRLF counts once and a lone CR breaks a line too
+ */
+export function positionAfter(text: string): { lineBreaks: number; column: number } {
+    const lines = text.split(/\r\n|\r|\n/);
+    return { lineBreaks: lines.length - 1, column: codePointLength(lines[lines.length - 1]) + 1 };
+}
+
+/**
+ * Format a code point as U+XXXX with the character itself for readability
+ */
+export function formatCodePoint(codePoint: number): string {
+    const hex = codePoint.toString(16).toUpperCase().padStart(4, '0');
+    const printable = codePoint >= 0x20 && codePoint !== 0x7F && codePoint !== 0xFFFD;
+    return printable ? `U+${hex} '${String.fromCodePoint(codePoint)}'` : `U+${hex}`;
+}
+
+// Valid second bytes of a UTF-8 sequence by lead byte, the bytes after it are always 0x80-0xBF
+function utf8SecondByteRange(lead: number): [number, number] | undefined {
+    if (lead < 0xC2 || lead > 0xF4) {
+        return undefined;
+    }
+    const narrowed: { [lead: number]: [number, number] } = {
+        0xE0: [0xA0, 0xBF], // No overlong three-byte forms
+        0xED: [0x80, 0x9F], // No surrogates
+        0xF0: [0x90, 0xBF], // No overlong four-byte forms
+        0xF4: [0x80, 0x8F]  // Nothing above U+10FFFF
+    };
+    return narrowed[lead] ?? [0x80, 0xBF];
+}
+
+/**
+ * The raw bytes behind a range of UTF-8 decoded text, start and end in UTF-16 code units
+ * Invalid bytes decode to one U+FFFD per maximal subpart, as Buffer.toString does, so the bytes a
+ * U+FFFD stands for are found again
+ */
+export function utf8ByteRange(rawBuffer: Buffer, start: number, end: number): Buffer {
+    let unit = 0;
+    let startByte = start === 0 ? 0 : -1;
+    let i = 0;
+    while (i < rawBuffer.length && unit < end) {
+        const lead = rawBuffer[i];
+        let length = 1;
+        let units = 1;
+        const second = lead >= 0x80 ? utf8SecondByteRange(lead) : undefined;
+        if (second) {
+            const total = lead >= 0xF0 ? 4 : lead >= 0xE0 ? 3 : 2;
+            let valid = 1;
+            while (valid < total && i + valid < rawBuffer.length) {
+                const byte = rawBuffer[i + valid];
+                const [low, high] = valid === 1 ? second : [0x80, 0xBF];
+                if (byte < low || byte > high) {
+                    break;
+                }
+                valid++;
+            }
+            // A complete sequence is one character, an incomplete one a single U+FFFD
+            length = valid;
+            units = valid === total && total === 4 ? 2 : 1;
+        }
+        i += length;
+        unit += units;
+        if (unit === start) {
+            startByte = i;
+        }
+    }
+    if (startByte < 0 || unit !== end) {
+        throw new Error(`Range ${start}-${end} does not fall on character boundaries`);
+    }
+    return rawBuffer.subarray(startByte, i);
+}
+
+/**
+ * Check whether decoding introduced replacement characters
+ * U+FFFD is only legitimate if the source bytes really contain it,
+ * in which case re-encoding to the source reproduces the original bytes
+ */
+export function hasDecodeLoss(rawBuffer: Buffer, decodedText: string, sourceEncoding: string): boolean {
+    if (!decodedText.includes('\ufffd')) {
+        return false;
+    }
+    try {
+        const reencodedSource = iconv.encode(decodedText, sourceEncoding);
+        return Buffer.compare(stripBOMBytes(rawBuffer), stripBOMBytes(reencodedSource)) !== 0;
+    } catch (error) {
+        return true;
+    }
+}
+
+/**
+ * Build a per-character check for the target encoding
+ * Cached per code point, files usually repeat the same few non-ASCII characters
+ */
+export function createEncodabilityCheck(targetEncoding: string): (char: string) => boolean {
+    const cache = new Map<string, boolean>();
+    return (char: string) => {
+        let survives = cache.get(char);
+        if (survives === undefined) {
+            try {
+                survives = iconv.decode(iconv.encode(char, targetEncoding), targetEncoding) === char;
+            } catch (error) {
+                survives = false;
+            }
+            cache.set(char, survives);
+        }
+        return survives;
+    };
+}
+
+/**
+ * Find a close equivalent the target encoding can represent
+ * Tries compatibility forms (full-width -> ASCII), then drops accents, then a small punctuation table
+ */
+function transliterateCharacter(char: string, canEncode: (char: string) => boolean): string | undefined {
+    const punctuation: { [key: string]: string } = {
+        '\u2018': "'", '\u2019': "'", '\u201A': "'", '\u201B': "'",
+        '\u201C': '"', '\u201D': '"', '\u201E': '"', '\u201F': '"',
+        '\u2013': '-', '\u2014': '-', '\u2015': '-', '\u2212': '-',
+        '\u2026': '...', '\u2022': '*', '\u00A0': ' ', '\u3000': ' ',
+        '\u00AB': '<<', '\u00BB': '>>', '\u2039': '<', '\u203A': '>',
+        '\u00DF': 'ss', '\u00E6': 'ae', '\u00C6': 'AE', '\u0153': 'oe', '\u0152': 'OE',
+        '\u00F8': 'o', '\u00D8': 'O', '\u0142': 'l', '\u0141': 'L', '\u20AC': 'EUR'
+    };
+
+    const candidates = [
+        char.normalize('NFKC'),
+        char.normalize('NFKD').replace(/[\u0300-\u036f]/g, ''),
+        punctuation[char]
+    ];
+
+    for (const candidate of candidates) {
+        if (candidate && candidate !== char && [...candidate].every(c => canEncode(c))) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Rewrite characters the target encoding cannot represent according to the policy
+ * With the 'fail' policy the text is left alone and verification rejects the file
+ */
+export function applyUnmappablePolicy(
+    text: string,
+    targetEncoding: string,
+    policy: UnmappablePolicy,
+    substitute: string,
+    keepReplacementChars: boolean
+): { text: string; count: number } {
+    if (policy === 'fail') {
+        return { text, count: 0 };
+    }
+
+    const canEncode = createEncodabilityCheck(targetEncoding);
+    if ((policy === 'substitute' || policy === 'transliterate') && ![...substitute].every(c => canEncode(c))) {
+        throw new Error(`Substitute character "${substitute}" cannot be represented in ${targetEncoding}`);
+    }
+
+    let count = 0;
+    let output = '';
+    for (const char of text) {
+        // Replacement characters from a bad decode must reach verification untouched
+        if (canEncode(char) || (keepReplacementChars && char === '\ufffd')) {
+            output += char;
+            continue;
+        }
+
+        count++;
+        const codePoint = char.codePointAt(0) as number;
+        switch (policy) {
+            case 'substitute':
+                output += substitute;
+                break;
+            case 'escape-unicode':
+                // Astral characters become a surrogate pair, as in JavaScript/Java/JSON
+                for (let i = 0; i < char.length; i++) {
+                    output += '\\u' + char.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+                }
+                break;
+            case 'escape-html':
+                output += `&#x${codePoint.toString(16).toUpperCase()};`;
+                break;
+            case 'transliterate':
+                output += transliterateCharacter(char, canEncode) ?? substitute;
+                break;
+        }
+    }
+
+    return { text: output, count };
+}
+
+/**
+ * Verify that a conversion is lossless before anything is written
+ * 1. Decoding must not have introduced replacement characters (wrong source encoding)
+ * 2. Every character of the output text must survive encode -> decode in the target encoding
+ */
+export function verifyConversion(
+    rawBuffer: Buffer,
+    decodedText: string,
+    text: string,
+    sourceEncoding: string,
+    targetEncoding: string
+): VerificationResult {
+    const maxRecorded = 20;
+    const lossyCharacters: LossyCharacter[] = [];
+    let totalLossy = 0;
+
+    const decodeIsLossy = hasDecodeLoss(rawBuffer, decodedText, sourceEncoding);
+    const canEncode = createEncodabilityCheck(targetEncoding);
+    let line = 1;
+    let column = 1;
+    let previous = '';
+
+    for (const char of text) {
+        const codePoint = char.codePointAt(0) as number;
+        let stage: 'decode' | 'encode' | undefined;
+
+        if (codePoint === 0xFFFD && decodeIsLossy) {
+            stage = 'decode';
+        } else if (!canEncode(char)) {
+            stage = 'encode';
+        }
+
+        if (stage) {
+            totalLossy++;
+            if (lossyCharacters.length < maxRecorded) {
+                lossyCharacters.push({ line, column, codePoint, stage });
+            }
+        }
+
+        // The LF of a CRLF was counted with its CR
+        if (char === '\r' || (char === '\n' && previous !== '\r')) {
+            line++;
+            column = 1;
+        } else if (char !== '\n') {
+            column++;
+        }
+        previous = char;
+    }
+
+    if (totalLossy > 0) {
+        const decodeCount = lossyCharacters.filter(c => c.stage === 'decode').length;
+        const details = lossyCharacters.slice(0, 5)
+            .map(c => `line ${c.line}, column ${c.column}: ${formatCodePoint(c.codePoint)}${c.stage === 'decode' ? ` (undecodable ${sourceEncoding} bytes)` : ''}`)
+            .join('; ');
+        const more = totalLossy > 5 ? `; ... and ${totalLossy - 5} more` : '';
+        const cause = decodeCount > 0
+            ? `source does not decode cleanly as ${sourceEncoding.toUpperCase()} or contains characters ${targetEncoding.toUpperCase()} cannot represent`
+            : `${targetEncoding.toUpperCase()} cannot represent ${totalLossy} character(s)`;
+        return {
+            lossless: false,
+            lossyCharacters,
+            totalLossy,
+            error: `Lossy conversion, file not written: ${cause} - ${details}${more}`
+        };
+    }
+
+    // Whole-text check catches stateful encodings where single characters look fine
+    try {
+        const roundTrip = iconv.decode(iconv.encode(text, targetEncoding), targetEncoding);
+        if (roundTrip !== text) {
+            let index = 0;
+            while (index < text.length && text[index] === roundTrip[index]) {
+                index++;
+            }
+            // A mismatch in the low half of a surrogate pair is reported at the pair
+            if (index > 0 && /[\uD800-\uDBFF]/.test(text[index - 1])) {
+                index--;
+            }
+            const { lineBreaks, column: mismatchColumn } = positionAfter(text.slice(0, index));
+            const mismatchLine = lineBreaks + 1;
+            const codePoint = text.codePointAt(index) ?? 0;
+            return {
+                lossless: false,
+                lossyCharacters: [{ line: mismatchLine, column: mismatchColumn, codePoint, stage: 'encode' }],
+                totalLossy: 1,
+                error: `Lossy conversion, file not written: round-trip through ${targetEncoding.toUpperCase()} differs at line ${mismatchLine}, column ${mismatchColumn}: ${formatCodePoint(codePoint)}`
+            };
+        }
+    } catch (error) {
+        return {
+            lossless: false,
+            lossyCharacters: [],
+            totalLossy: 0,
+            error: `Failed to verify ${targetEncoding} round-trip: ${error}`
+        };
+    }
+
+    return { lossless: true, lossyCharacters: [], totalLossy: 0 };
+}
+
@@ -0,0 +1,101 @@
+/**
+ * Glob matching for rules and exclude patterns
+ * Supports **, *, ?, [...] and {a,b}. Paths are matched with forward slashes,
+ * relative to the workspace root.
+ */
+
+import * as path from 'path';
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Translate a glob into a regular expression matching a whole relative path
+ * A pattern without a slash matches the name at any depth, like in .gitignore
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const cached = cache.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    let glob = pattern.trim().replace(/\\/g, '/');
+    if (!glob.replace(/\/$/, '').includes('/')) {
+        glob = `**/${glob}`;
+    }
+    glob = glob.replace(/^\.?\//, '').replace(/\/$/, '');
+
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" matches zero or more directories, a trailing "**" everything below
+                const slashFollows = glob[i + 2] === '/';
+                source += slashFollows ? '(?:[^/]*/)*' : '.*';
+                i += slashFollows ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                source += `[${body}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    const regex = new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+    cache.set(pattern, regex);
+    return regex;
+}
+
+/**
+ * Check a relative path against a glob
+ * Matching a directory matches everything inside it
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+    const regex = globToRegExp(pattern);
+    const segments = relativePath.replace(/\\/g, '/').split('/');
+    for (let length = segments.length; length > 0; length--) {
+        if (regex.test(segments.slice(0, length).join('/'))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Check whether a glob excludes a whole directory
+ * "dist" and "dist/**" both exclude the directory dist, "*.js" does not
+ */
+export function matchesDirectory(relativeDir: string, pattern: string): boolean {
+    return matchesGlob(relativeDir, pattern) || globToRegExp(pattern).test(`${relativeDir.replace(/\\/g, '/')}/`);
+}
+
+/**
+ * Path relative to a root with forward slashes, undefined if it lies outside the root
+ */
+export function toRelativePath(root: string, filePath: string): string | undefined {
+    const relative = path.relative(root, filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        return undefined;
+    }
+    return relative.split(path.sep).join('/');
+}
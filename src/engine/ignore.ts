@@ -0,0 +1,54 @@
+/**
+ * .gitignore support for file collection
+ * Patterns are relative to the directory of their .gitignore; the last matching rule decides,
+ * and "!" re-includes. As in git, nothing below an ignored directory can be re-included.
+ */
+
+import { globToRegExp, toRelativePath } from './glob';
+
+export interface IgnoreRule {
+    pattern: string; // As written, for reporting
+    glob: string;
+    base: string; // Directory of the .gitignore
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Parse a .gitignore file located in base
+ */
+export function parseGitignore(text: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+        const negated = line.startsWith('!');
+        let glob = (negated ? line.slice(1) : line).replace(/^\\([#!])/, '$1');
+        const directoryOnly = glob.endsWith('/');
+        glob = glob.replace(/\/+$/, '');
+        if (!glob) {
+            continue;
+        }
+        rules.push({ pattern: line, glob, base, negated, directoryOnly });
+    }
+    return rules;
+}
+
+/**
+ * The rule that ignores a path, undefined if it is not ignored
+ */
+export function findIgnoringRule(rules: IgnoreRule[], filePath: string, isDirectory: boolean): IgnoreRule | undefined {
+    let decided: IgnoreRule | undefined;
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+            continue;
+        }
+        const relativePath = toRelativePath(rule.base, filePath);
+        if (relativePath && globToRegExp(rule.glob).test(relativePath)) {
+            decided = rule;
+        }
+    }
+    return decided && !decided.negated ? decided : undefined;
+}
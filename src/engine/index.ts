@@ -0,0 +1,15 @@
+/**
+ * Public surface of the conversion engine
+ */
+
+export * from './types';
+export * from './encoding';
+export { CatalogueEncoding, encodingCatalogue, findEncoding } from './catalogue';
+export { BackupStore, createBackupStore, hashContent } from './backupStore';
+export { detectBufferEncoding, rankEncodings } from './detection';
+export { reinterpretText } from './mojibake';
+export { sniffBinary } from './binary';
+export { EditorConfigResolver, toEditorConfigCharset } from './editorconfig';
+export { ConversionEngine, createConversionEngine } from './converter';
+export * from './report';
+export { createNodeHost, defaultConfig, openFileWriteStream, readFileStream } from './nodeHost';
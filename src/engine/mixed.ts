@@ -0,0 +1,111 @@
+/**
+ * Mixed-encoding analysis
+ * Files edited with different editors can hold lines in more than one encoding, typically UTF-8 lines
+ * appended to a legacy file. Each line is judged on its own: valid UTF-8 is UTF-8, the other non-ASCII
+ * lines are ranked together to find their legacy encoding. ASCII lines read the same in both and join
+ * the segment before them.
+ */
+
+import * as iconv from 'iconv-lite';
+import { rankEncodings } from './detection';
+import { detectBOM } from './encoding';
+import { EncodingSegment, LogLevel, MixedEncodingAnalysis } from './types';
+
+/**
+ * Byte ranges of the lines of raw content from an offset on, each line with its terminator (LF, CRLF or a lone CR)
+ */
+function splitLines(rawBuffer: Buffer, offset: number): { start: number; end: number }[] {
+    const lines: { start: number; end: number }[] = [];
+    let start = offset;
+    for (let i = offset; i < rawBuffer.length; i++) {
+        const byte = rawBuffer[i];
+        if (byte === 0x0A || (byte === 0x0D && rawBuffer[i + 1] !== 0x0A)) {
+            lines.push({ start, end: i + 1 });
+            start = i + 1;
+        }
+    }
+    if (start < rawBuffer.length) {
+        lines.push({ start, end: rawBuffer.length });
+    }
+    return lines;
+}
+
+/**
+ * Whether bytes are well-formed UTF-8, Node replaces every malformed sequence so a round trip tells
+ */
+function isValidUtf8(bytes: Buffer): boolean {
+    return Buffer.from(bytes.toString('utf8'), 'utf8').equals(bytes);
+}
+
+/**
+ * Work out the encoding of every line of raw content and group the lines into segments
+ * Only ASCII-compatible content can be mixed, UTF-16 and UTF-32 come back as a single segment
+ */
+export async function analyzeMixedContent(
+    rawBuffer: Buffer,
+    log: (message: string, level?: LogLevel) => void
+): Promise<MixedEncodingAnalysis> {
+    // A UTF-8 BOM is in no line, decoded with the legacy encoding of the first line it would become text
+    const bom = detectBOM(rawBuffer);
+    const contentStart = bom === 'utf-8' ? 3 : 0;
+    const lines = splitLines(rawBuffer, contentStart);
+    const whole = (encoding: string): MixedEncodingAnalysis => ({
+        mixed: false,
+        encodings: [encoding],
+        segments: [{ encoding, startLine: 1, endLine: Math.max(1, lines.length), start: contentStart, end: rawBuffer.length }]
+    });
+
+    if ((bom && bom !== 'utf-8') || rawBuffer.includes(0)) {
+        return whole(bom ?? 'binary');
+    }
+
+    // 'utf-8', 'legacy', or undefined for ASCII lines that fit any segment
+    const kinds = lines.map(line => {
+        const bytes = rawBuffer.subarray(line.start, line.end);
+        if (bytes.every(byte => byte < 0x80)) {
+            return undefined;
+        }
+        return isValidUtf8(bytes) ? 'utf-8' : 'legacy';
+    });
+
+    const legacyLines = lines.filter((_, i) => kinds[i] === 'legacy');
+    if (legacyLines.length === 0) {
+        return whole(kinds.includes('utf-8') ? 'utf-8' : 'ascii');
+    }
+
+    // The legacy lines together are a far better sample than any one of them
+    const legacyContent = Buffer.concat(legacyLines.map(line => rawBuffer.subarray(line.start, line.end)));
+    const candidates = (await rankEncodings(legacyContent, log))
+        .map(c => c.encoding)
+        .filter(encoding => encoding !== 'utf-8');
+    if (candidates.length === 0) {
+        return whole('utf-8');
+    }
+
+    // A line the best legacy encoding cannot decode goes to the first candidate that can
+    const encodings = lines.map((line, i) => {
+        if (kinds[i] !== 'legacy') {
+            return kinds[i];
+        }
+        const bytes = rawBuffer.subarray(line.start, line.end);
+        return candidates.find(encoding => !iconv.decode(bytes, encoding).includes('\ufffd')) ?? candidates[0];
+    });
+
+    // ASCII lines join the segment before them, leading ones the first segment
+    const first = encodings.find(encoding => encoding !== undefined) as string;
+    const segments: EncodingSegment[] = [];
+    lines.forEach((line, i) => {
+        const last = segments[segments.length - 1];
+        const encoding = encodings[i] ?? last?.encoding ?? first;
+        if (last && last.encoding === encoding) {
+            last.endLine = i + 1;
+            last.end = line.end;
+        } else {
+            segments.push({ encoding, startLine: i + 1, endLine: i + 1, start: line.start, end: line.end });
+        }
+    });
+
+    const used = [...new Set(segments.map(segment => segment.encoding))];
+    log(`Mixed-encoding analysis: ${segments.length} segment(s) in ${used.join(', ')}`);
+    return { mixed: used.length > 1, encodings: used, segments };
+}
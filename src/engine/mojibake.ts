@@ -0,0 +1,190 @@
+/**
+ * Mojibake repair
+ * Text that was decoded with the wrong encoding and saved again (UTF-8 opened as Windows-1252 turns every
+ * accented letter into two characters) still holds the original bytes: encoding it with the wrong encoding
+ * gets them back, decoding those with the right one gets the text back. Every pair of encodings is tried
+ * line by line, a pair that reverses cleanly and leaves plausible text with fewer characters is a likely fix.
+ */
+
+import * as iconv from 'iconv-lite';
+import { plausibility, TextLanguage } from './plausibility';
+import { MojibakeRepair } from './types';
+
+// Encodings text is commonly misread with, and encodings it really was in
+const misreadEncodings = ['windows-1252', 'iso-8859-1', 'windows-1251', 'big5', 'gbk', 'shift_jis', 'euc-kr'];
+const originalEncodings = ['utf-8', 'big5', 'gbk', 'shift_jis', 'euc-kr'];
+
+const languages: TextLanguage[] = ['chinese', 'japanese', 'korean', 'western'];
+
+// Repaired lines shown per candidate
+const maxSamples = 3;
+const maxSampleLength = 120;
+
+/**
+ * Undo one misreading of a line, undefined when the line cannot have come from it
+ */
+function reverseLine(line: string, misreadAs: string, original: string): string | undefined {
+    // Bytes the misreading replaced with U+FFFD are gone, the pieces between them are reversed on their own
+    // and may only fail to decode at their edges, where a character lost part of its bytes
+    const pieces = line.split('\ufffd');
+    const repaired: string[] = [];
+    for (const piece of pieces) {
+        const bytes = iconv.encode(piece, misreadAs);
+        // Characters the wrong encoding cannot produce mean it never decoded this line
+        if (iconv.decode(bytes, misreadAs) !== piece) {
+            return undefined;
+        }
+        const text = iconv.decode(bytes, original);
+        const inner = pieces.length > 1 ? text.replace(/^\ufffd+|\ufffd+$/g, '') : text;
+        if (inner.includes('\ufffd')) {
+            return undefined;
+        }
+        repaired.push(text);
+    }
+    return repaired.join('\ufffd');
+}
+
+// Lost characters say nothing about a repair, they are the same before and after
+function withoutLost(text: string): string {
+    return text.replace(/\ufffd/g, '');
+}
+
+function countNonAscii(text: string): number {
+    let count = 0;
+    for (const char of withoutLost(text)) {
+        if (char.codePointAt(0) as number >= 0x80) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/**
+ * The language text reads best as, with its plausibility
+ */
+function bestLanguage(text: string): { language: TextLanguage; plausible: number } {
+    return languages
+        .map(language => ({ language, plausible: plausibility(withoutLost(text), language) }))
+        .reduce((a, b) => (b.plausible > a.plausible ? b : a));
+}
+
+function truncate(line: string): string {
+    const trimmed = line.replace(/[\r\n]+$/, '');
+    return trimmed.length > maxSampleLength ? `${trimmed.slice(0, maxSampleLength)}...` : trimmed;
+}
+
+/**
+ * Apply one repair to text, lines it cannot reverse stay as they are
+ */
+export function reverseMojibake(text: string, misreadAs: string, original: string): { text: string; linesRepaired: number } {
+    let linesRepaired = 0;
+    const lines = text.split(/(?<=\n)/).map(line => {
+        if (!/[^\x00-\x7F]/.test(line)) {
+            return line;
+        }
+        const repaired = reverseLine(line, misreadAs, original);
+        if (repaired === undefined || repaired === line) {
+            return line;
+        }
+        linesRepaired++;
+        return repaired;
+    });
+    return { text: lines.join(''), linesRepaired };
+}
+
+/**
+ * Re-decode text that was misread, as the encoding its bytes really were in
+ * The misreading is the one that reverses cleanly into the most plausible text, undefined when none does
+ */
+export function reinterpretText(text: string, original: string): { text: string; misreadAs: string } | undefined {
+    let best: { text: string; misreadAs: string; plausible: number } | undefined;
+    for (const misreadAs of misreadEncodings) {
+        if (misreadAs === original) {
+            continue;
+        }
+        const repaired = reverseLine(text, misreadAs, original);
+        if (repaired === undefined || repaired === text) {
+            continue;
+        }
+        const { plausible } = bestLanguage(repaired);
+        if (!best || plausible > best.plausible) {
+            best = { text: repaired, misreadAs, plausible };
+        }
+    }
+    return best && { text: best.text, misreadAs: best.misreadAs };
+}
+
+/**
+ * Try every reverse transformation on text and rank the ones that look like fixes, best first
+ */
+export function findMojibakeRepairs(text: string, maxResults: number = 5): MojibakeRepair[] {
+    const lines = text.split(/(?<=\n)/).filter(line => /[^\x00-\x7F]/.test(line));
+    if (lines.length === 0) {
+        return [];
+    }
+    const before = bestLanguage(lines.join(''));
+    const lost = lines.join('').split('\ufffd').length - 1;
+
+    const repairs: MojibakeRepair[] = [];
+    const seen = new Set<string>();
+    for (const original of originalEncodings) {
+        for (const misreadAs of misreadEncodings) {
+            if (misreadAs === original) {
+                continue;
+            }
+            const samples: { before: string; after: string }[] = [];
+            const repairedLines: string[] = [];
+            let charsBefore = 0;
+            for (const line of lines) {
+                const repaired = reverseLine(line, misreadAs, original);
+                if (repaired === undefined || repaired === line) {
+                    continue;
+                }
+                charsBefore += countNonAscii(line);
+                repairedLines.push(repaired);
+                if (samples.length < maxSamples) {
+                    samples.push({ before: truncate(line), after: truncate(repaired) });
+                }
+            }
+            if (repairedLines.length === 0) {
+                continue;
+            }
+
+            // Two readings that give the same text are the same fix, the first pair named wins
+            const repairedText = repairedLines.join('');
+            if (seen.has(repairedText)) {
+                continue;
+            }
+            seen.add(repairedText);
+
+            // Mojibake spreads each character over several, a real fix shrinks the text or at least reads better
+            const charsAfter = countNonAscii(repairedText);
+            const shrinks = charsAfter < charsBefore;
+            const after = bestLanguage(repairedText);
+            if (!shrinks && after.plausible <= before.plausible) {
+                continue;
+            }
+            const coverage = repairedLines.length / lines.length;
+            const score = coverage * after.plausible * (shrinks ? 1 : 0.5);
+
+            repairs.push({
+                misreadAs,
+                original,
+                score: Math.round(score * 1000) / 1000,
+                reasons: [
+                    `${repairedLines.length} of ${lines.length} non-ASCII line(s) reverse cleanly`,
+                    `${charsBefore} -> ${charsAfter} non-ASCII characters`,
+                    `${(after.plausible * 100).toFixed(0)}% plausible as ${after.language} text (was ${(before.plausible * 100).toFixed(0)}%)`,
+                    ...(lost > 0 ? [`${lost} character(s) were already lost to U+FFFD and stay unreadable`] : [])
+                ],
+                linesRepaired: repairedLines.length,
+                samples
+            });
+        }
+    }
+
+    return repairs
+        .filter(repair => repair.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults);
+}
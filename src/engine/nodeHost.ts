@@ -0,0 +1,116 @@
+/**
+ * Engine host backed by Node's fs module, used by the command-line interface
+ */
+
+import { createReadStream, promises as fsp } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncodingConverterConfig, EngineHost, EngineWriteStream, FileEntryType, LogLevel } from './types';
+
+// Same defaults as the extension settings in package.json
+export const defaultConfig: EncodingConverterConfig = {
+    batchConcurrency: 5,
+    streamingThresholdMB: 50,
+    createBackup: true,
+    showDetailedResults: true,
+    excludePatterns: [
+        '*.exe', '*.dll', '*.so', '*.dylib', '*.bin', '*.pdf',
+        '*.jpg', '*.png', '*.gif', '*.zip', '*.tar', '*.gz',
+        '**/.git/**', '**/node_modules/**'
+    ],
+    includePatterns: [],
+    respectGitignore: true,
+    autoReopenFiles: true,
+    unmappablePolicy: 'fail',
+    unmappableSubstitute: '?',
+    expectedEncoding: 'utf-8',
+    diagnosticsEnabled: false,
+    transactionalBatch: false,
+    bomPolicy: 'preserve',
+    eolPolicy: 'keep',
+    rules: [],
+    useEditorConfig: true,
+    editorConfigWriteCharset: 'never',
+    backupDirectory: '',
+    backupRetention: {
+        maxVersionsPerFile: 10,
+        maxAgeDays: 30,
+        maxTotalSizeMB: 500
+    },
+    favoriteEncodings: [],
+    recentEncodingCount: 5,
+    watcherEnabled: false,
+    watcherAutoConvert: [],
+    inboxFolders: [],
+    inboxMinConfidence: 0.8
+};
+
+export interface NodeHostOptions {
+    config?: Partial<EncodingConverterConfig>;
+    log?: (message: string, level: LogLevel) => void;
+    // Root for rule patterns, defaults to the current directory
+    workspaceRoot?: string;
+}
+
+/**
+ * Read a local file in chunks, end is inclusive
+ */
+export function readFileStream(filePath: string, start?: number, end?: number): AsyncIterable<Uint8Array> {
+    return createReadStream(filePath, { start, end });
+}
+
+/**
+ * Open a local file for sequential writing, replacing its content
+ */
+export async function openFileWriteStream(filePath: string): Promise<EngineWriteStream> {
+    const handle = await fsp.open(filePath, 'w');
+    let closed = false;
+    return {
+        write: async chunk => {
+            await handle.write(chunk);
+        },
+        close: async () => {
+            if (!closed) {
+                closed = true;
+                await handle.close();
+            }
+        }
+    };
+}
+
+/**
+ * Create a host that reads and writes the local file system directly
+ */
+export function createNodeHost(options: NodeHostOptions = {}): EngineHost {
+    const config: EncodingConverterConfig = { ...defaultConfig, ...options.config };
+    
+    return {
+        fs: {
+            readFile: filePath => fsp.readFile(filePath),
+            writeFile: (filePath, content) => fsp.writeFile(filePath, content),
+            stat: async filePath => {
+                const stat = await fsp.stat(filePath);
+                const type: FileEntryType = stat.isFile() ? 'file' : stat.isDirectory() ? 'directory' : 'other';
+                return { type, size: stat.size, mtime: stat.mtimeMs };
+            },
+            readDirectory: async dirPath => {
+                const entries = await fsp.readdir(dirPath, { withFileTypes: true });
+                return entries.map((entry): [string, FileEntryType] => [
+                    entry.name,
+                    entry.isFile() ? 'file' : entry.isDirectory() ? 'directory' : 'other'
+                ]);
+            },
+            delete: filePath => fsp.unlink(filePath),
+            createDirectory: async dirPath => {
+                await fsp.mkdir(dirPath, { recursive: true });
+            },
+            rename: (oldPath, newPath) => fsp.rename(oldPath, newPath),
+            readStream: readFileStream,
+            writeStream: openFileWriteStream
+        },
+        getConfig: () => config,
+        log: (message, level = 'info') => options.log?.(message, level),
+        defaultBackupDirectory: path.join(os.homedir(), '.encoding-converter', 'backups'),
+        getWorkspaceRoot: () => options.workspaceRoot ?? process.cwd()
+    };
+}
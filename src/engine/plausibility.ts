@@ -0,0 +1,185 @@
+/**
+ * Character-frequency plausibility of decoded text
+ * Text decoded with the right encoding is made of the characters its language uses most. The same bytes
+ * decoded with a wrong CJK encoding turn into rare characters, with a wrong single-byte encoding into runs
+ * of accented letters. The lists are escaped so this file reads the same in any editor encoding.
+ */
+
+// About 1400 of the most frequent Chinese characters in simplified and traditional form, which also covers common kanji
+const commonHanzi = new Set(
+    '\u7684\u4E00\u662F\u4E0D\u4E86\u5728\u4EBA\u6709\u6211\u4ED6\u8FD9\u4E2A\u4EEC\u4E2D\u6765\u4E0A' +
+    '\u5927\u4E3A\u548C\u56FD\u5730\u5230\u4EE5\u8BF4\u65F6\u8981\u5C31\u51FA\u4F1A\u53EF\u4E5F\u4F60' +
+    '\u5BF9\u751F\u80FD\u800C\u5B50\u90A3\u5F97\u4E8E\u7740\u4E0B\u81EA\u4E4B\u5E74\u8FC7\u53D1\u540E' +
+    '\u4F5C\u91CC\u7528\u9053\u884C\u6240\u7136\u5BB6\u79CD\u4E8B\u6210\u65B9\u591A\u7ECF\u4E48\u53BB' +
+    '\u6CD5\u5B66\u5982\u90FD\u540C\u73B0\u5F53\u6CA1\u52A8\u9762\u8D77\u770B\u5B9A\u5929\u5206\u8FD8' +
+    '\u8FDB\u597D\u5C0F\u90E8\u5176\u4E9B\u4E3B\u6837\u7406\u5FC3\u5979\u672C\u524D\u5F00\u4F46\u56E0' +
+    '\u53EA\u4ECE\u60F3\u5B9E\u65E5\u519B\u8005\u610F\u65E0\u529B\u5B83\u4E0E\u957F\u628A\u673A\u5341' +
+    '\u6C11\u7B2C\u516C\u6B64\u5DF2\u5DE5\u4F7F\u60C5\u660E\u6027\u77E5\u5168\u4E09\u53C8\u5173\u70B9' +
+    '\u6B63\u4E1A\u5916\u5C06\u4E24\u9AD8\u95F4\u7531\u95EE\u5F88\u6700\u91CD\u5E76\u7269\u624B\u5E94' +
+    '\u6218\u5411\u5934\u6587\u4F53\u653F\u7F8E\u76F8\u89C1\u88AB\u5229\u4EC0\u4E8C\u7B49\u4EA7\u6216' +
+    '\u65B0\u5DF1\u5236\u8EAB\u679C\u52A0\u897F\u65AF\u6708\u8BDD\u5408\u56DE\u7279\u4EE3\u5185\u4FE1' +
+    '\u8868\u5316\u8001\u7ED9\u4E16\u4F4D\u6B21\u5EA6\u95E8\u4EFB\u5E38\u5148\u6D77\u901A\u6559\u513F' +
+    '\u539F\u4E1C\u58F0\u63D0\u7ACB\u53CA\u6BD4\u5458\u89E3\u6C34\u540D\u771F\u8BBA\u5904\u8D70\u4E49' +
+    '\u5404\u5165\u51E0\u53E3\u8BA4\u6761\u5E73\u7CFB\u6C14\u9898\u6D3B\u5C14\u66F4\u522B\u6253\u5973' +
+    '\u53D8\u56DB\u795E\u603B\u4F55\u7535\u6570\u5B89\u5C11\u62A5\u624D\u7ED3\u53CD\u53D7\u76EE\u592A' +
+    '\u91CF\u518D\u611F\u5EFA\u52A1\u505A\u63A5\u5FC5\u573A\u4EF6\u8BA1\u7BA1\u671F\u5E02\u76F4\u5FB7' +
+    '\u8D44\u547D\u5C71\u91D1\u6307\u514B\u8BB8\u7EDF\u533A\u4FDD\u81F3\u961F\u5F62\u793E\u4FBF\u7A7A' +
+    '\u51B3\u6CBB\u5C55\u9A6C\u79D1\u53F8\u4E94\u57FA\u773C\u4E66\u975E\u5219\u542C\u767D\u5374\u754C' +
+    '\u8FBE\u5149\u653E\u5F3A\u5373\u50CF\u96BE\u4E14\u6743\u601D\u738B\u8C61\u5B8C\u8BBE\u5F0F\u8272' +
+    '\u8DEF\u8BB0\u5357\u54C1\u4F4F\u544A\u7C7B\u6C42\u636E\u7A0B\u5317\u8FB9\u6B7B\u5F20\u8BE5\u4EA4' +
+    '\u89C4\u4E07\u53D6\u62C9\u683C\u671B\u89C9\u672F\u9886\u5171\u786E\u4F20\u5E08\u89C2\u6E05\u4ECA' +
+    '\u5207\u9662\u8BA9\u8BC6\u5019\u5E26\u5BFC\u4E89\u8FD0\u7B11\u98DE\u98CE\u6B65\u6539\u6536\u6839' +
+    '\u5E72\u9020\u8A00\u8054\u6301\u7EC4\u6BCF\u6D4E\u8F66\u4EB2\u6781\u6797\u670D\u5FEB\u529E\u8BAE' +
+    '\u5F80\u5143\u82F1\u58EB\u8BC1\u8FD1\u5931\u8F6C\u592B\u4EE4\u51C6\u5E03\u59CB\u600E\u5462\u5B58' +
+    '\u672A\u8FDC\u53EB\u53F0\u5355\u5F71\u5177\u7F57\u5B57\u7231\u51FB\u6D41\u5907\u5175\u8FDE\u8C03' +
+    '\u6DF1\u5546\u7B97\u8D28\u56E2\u96C6\u767E\u9700\u4EF7\u82B1\u515A\u534E\u57CE\u77F3\u7EA7\u6574' +
+    '\u5E9C\u79BB\u51B5\u4E9A\u8BF7\u6280\u9645\u7EA6\u793A\u590D\u75C5\u606F\u7A76\u7EBF\u4F3C\u5B98' +
+    '\u706B\u65AD\u7CBE\u6EE1\u652F\u89C6\u6D88\u8D8A\u5668\u5BB9\u7167\u987B\u4E5D\u589E\u7814\u5199' +
+    '\u79F0\u4F01\u516B\u529F\u5417\u5305\u7247\u53F2\u59D4\u4E4E\u67E5\u8F7B\u6613\u65E9\u66FE\u9664' +
+    '\u519C\u627E\u88C5\u5E7F\u663E\u5427\u963F\u674E\u6807\u8C08\u5403\u56FE\u5FF5\u516D\u5F15\u5386' +
+    '\u9996\u533B\u5C40\u7A81\u4E13\u8D39\u53F7\u5C3D\u53E6\u5468\u8F83\u6CE8\u8BED\u4EC5\u8003\u843D' +
+    '\u9752\u968F\u9009\u5217\u6B66\u7EA2\u54CD\u867D\u63A8\u52BF\u53C2\u5E0C\u53E4\u4F17\u6784\u623F' +
+    '\u534A\u8282\u571F\u6295\u67D0\u6848\u9ED1\u7EF4\u9769\u5212\u654C\u81F4\u9648\u5F8B\u8DB3\u6001' +
+    '\u62A4\u4E03\u5174\u6D3E\u5B69\u9A8C\u8D23\u8425\u661F\u591F\u7AE0\u97F3\u8DDF\u5FD7\u5E95\u7AD9' +
+    '\u4E25\u5DF4\u4F8B\u9632\u65CF\u4F9B\u6548\u7EED\u65BD\u7559\u8BB2\u578B\u6599\u7EC8\u7B54\u7D27' +
+    '\u9EC4\u7EDD\u5947\u5BDF\u6BCD\u4EAC\u6BB5\u4F9D\u6279\u7FA4\u9879\u6545\u6309\u6CB3\u7C73\u56F4' +
+    '\u6C5F\u7EC7\u5BB3\u6597\u53CC\u5883\u5BA2\u7EAA\u91C7\u4E3E\u6740\u653B\u7236\u82CF\u5BC6\u4F4E' +
+    '\u671D\u53CB\u8BC9\u6B62\u7EC6\u613F\u5343\u503C\u4ECD\u7537\u94B1\u7834\u7F51\u70ED\u52A9\u5012' +
+    '\u80B2\u5C5E\u5750\u5E1D\u9650\u8239\u8138\u804C\u901F\u523B\u4E50\u5426\u521A\u5A01\u6BDB\u72B6' +
+    '\u7387\u751A\u72EC\u7403\u822C\u666E\u6015\u5F39\u6821\u82E6\u521B\u5047\u4E45\u9519\u627F\u5370' +
+    '\u665A\u5170\u8BD5\u80A1\u62FF\u8111\u9884\u8C01\u76CA\u9633\u82E5\u54EA\u5FAE\u5C3C\u7EE7\u9001' +
+    '\u6025\u8840\u60CA\u4F24\u7D20\u836F\u9002\u6CE2\u591C\u7701\u521D\u559C\u536B\u6E90\u98DF\u9669' +
+    '\u5F85\u8FF0\u9646\u4E60\u7F6E\u5C45\u52B3\u8D22\u73AF\u6392\u798F\u7EB3\u6B22\u96F7\u8B66\u83B7' +
+    '\u6A21\u5145\u8D1F\u4E91\u505C\u6728\u6E38\u9F99\u6811\u7591\u5C42\u51B7\u6D32\u51B2\u5C04\u7565' +
+    '\u8303\u7ADF\u53E5\u5BA4\u5F02\u6FC0\u6C49\u6751\u54C8\u7B56\u6F14\u7B80\u5361\u7F6A\u5224\u62C5' +
+    '\u5DDE\u9759\u9000\u65E2\u8863\u60A8\u5B97\u79EF\u4F59\u75DB\u68C0\u5DEE\u5BCC\u7075\u534F\u89D2' +
+    '\u5360\u914D\u5F81\u4FEE\u76AE\u6325\u80DC\u964D\u9636\u5BA1\u6C89\u575A\u5584\u5988\u5218\u8BFB' +
+    '\u554A\u8D85\u514D\u538B\u94F6\u4E70\u7687\u517B\u4F0A\u6000\u6267\u526F\u4E71\u6297\u72AF\u8FFD' +
+    '\u5E2E\u5BA3\u4F5B\u5C81\u822A\u4F18\u602A\u9999\u8457\u7530\u94C1\u63A7\u7A0E\u5DE6\u53F3\u4EFD' +
+    '\u7A7F\u827A\u80CC\u9635\u8349\u811A\u6982\u6076\u5757\u987F\u6562\u5B88\u9152\u5C9B\u6258\u592E' +
+    '\u6237\u70C8\u6D0B\u54E5\u7D22\u80E1\u6B3E\u9760\u8BC4\u7248\u5B9D\u5EA7\u91CA\u666F\u987E\u5F1F' +
+    '\u767B\u8D27\u4E92\u4ED8\u4F2F\u6162\u6B27\u6362\u95FB\u5371\u5FD9\u6838\u6697\u59D0\u4ECB\u574F' +
+    '\u8BA8\u4E3D\u826F\u5E8F\u5347\u76D1\u4E34\u4EAE\u9732\u6C38\u547C\u5473\u91CE\u67B6\u57DF\u6C99' +
+    '\u6389\u62EC\u8230\u9C7C\u6742\u8BEF\u6E7E\u5409\u51CF\u7F16\u695A\u80AF\u6D4B\u8D25\u5C4B\u8DD1' +
+    '\u68A6\u6563\u6E29\u56F0\u5251\u6E10\u5C01\u6551\u8D35\u67AA\u7F3A\u697C\u53BF\u5C1A\u6BEB\u79FB' +
+    '\u5A18\u670B\u753B\u73ED\u667A\u4EA6\u8033\u6069\u77ED\u638C\u6050\u9057\u56FA\u5E2D\u677E\u79D8' +
+    '\u8C22\u9C81\u9047\u5EB7\u8651\u5E78\u5747\u9500\u949F\u8BD7\u85CF\u8D76\u5267\u7968\u635F\u5FFD' +
+    '\u5DE8\u70AE\u65E7\u7AEF\u63A2\u6E56\u5F55\u53F6\u6625\u4E61\u9644\u5438\u4E88\u793C\u6E2F\u96E8' +
+    '\u5440\u677F\u5EAD\u5987\u5F52\u775B\u996D\u989D\u542B\u987A\u8F93\u6447\u62DB\u5A5A\u8131\u8865' +
+    '\u8C13\u7763\u6BD2\u6CB9\u7597\u65C5\u6CFD\u6750\u706D\u9010\u83AB\u7B14\u4EA1\u9C9C\u8BCD\u5723' +
+    '\u62E9\u5BFB\u5382\u7761\u535A\u52D2\u70DF\u6388\u8BFA\u4F26\u5CB8\u5965\u5510\u5356\u4FC4\u70B8' +
+    '\u8F7D\u6D1B\u5065\u5802\u65C1\u5BAB\u559D\u501F\u541B\u7981\u9634\u56ED\u8C0B\u5B8B\u907F\u6293' +
+    '\u8363\u59D1\u5B59\u9003\u7259\u675F\u8DF3\u9876\u7389\u9547\u96EA\u5348\u7EC3\u8FEB\u7237\u7BC7' +
+    '\u8089\u5634\u9986\u904D\u51E1\u7840\u6D1E\u5377\u5766\u725B\u5B81\u7EB8\u8BF8\u8BAD\u79C1\u5E84' +
+    '\u7956\u4E1D\u7FFB\u66B4\u68EE\u5854\u9ED8\u63E1\u620F\u9690\u719F\u9AA8\u8BBF\u5F31\u8499\u6B4C' +
+    '\u5E97\u9B3C\u8F6F\u5178\u6B32\u8428\u4F19\u906D\u76D8\u7238\u6269\u76D6\u5F04\u96C4\u7A33\u5FD8' +
+    '\u4EBF\u523A\u62E5\u5F92\u59C6\u6768\u9F50\u8D5B\u8DA3\u66F2\u5200\u5E8A\u8FCE\u51B0\u865A\u73A9' +
+    '\u6790\u7A97\u9192\u59BB\u900F\u8D2D\u66FF\u585E\u52AA\u4F11\u864E\u626C\u9014\u4FB5\u5211\u7EFF' +
+    '\u5144\u8FC5\u5957\u8D38\u6BD5\u552F\u8C37\u8F6E\u5E93\u8FF9\u5C24\u7ADE\u8857\u4FC3\u5EF6\u9707' +
+    '\u5F03\u7532\u4F1F\u9EBB\u5DDD\u7533\u7F13\u6F5C\u95EA\u552E\u706F\u9488\u54F2\u7EDC\u62B5\u6731' +
+    '\u57C3\u62B1\u9F13\u690D\u7EAF\u590F\u5FCD\u9875\u6770\u7B51\u6298\u90D1\u8D1D\u5C0A\u5434\u79C0' +
+    '\u6DF7\u81E3\u96C5\u632F\u67D3\u76DB\u6012\u821E\u5706\u641E\u72C2\u63AA\u59D3\u6B8B\u79CB\u57F9' +
+    '\u8FF7\u8BDA\u5BBD\u5B87\u731B\u6446\u6885\u6BC1\u4F38\u6469\u76DF\u672B\u4E43\u60B2\u62CD\u4E01' +
+    '\u8D75\u5C3E\u72D7\u903C\u9019\u500B\u5011\u4F86\u70BA\u570B\u8AAA\u6642\u6703\u5C0D\u767C\u5F8C' +
+    '\u88E1\u958B\u5F9E\u5BE6\u73FE\u7576\u6C92\u52D5\u9EBC\u904E\u7D93\u8207\u9577\u6A5F\u95DC\u65BC' +
+    '\u5C07\u5169\u9593\u554F\u9580\u9AD4\u5167\u6230\u7121\u982D\u898B\u7A2E\u61C9\u7522\u5B78\u6A23' +
+    '\u9084\u9032\u7E3D\u9EDE\u96FB\u6578\u8B8A\u66F8\u8B58\u8655\u54E1\u689D\u5F35\u5340\u7D71\u8A71' +
+    '\u8B93\u842C\u5E2B\u6771\u98A8\u8ECA\u8A08\u7D50\u5831\u7FD2\u969B\u8A18\u8A5E\u8A8D\u8ACB\u8AD6' +
+    '\u8F49\u904B\u9054\u9078\u908A\u9322\u9435\u984C\u55AE\u96D9\u807D\u865F\u7D66\u7DB2\u7D61\u8B80' +
+    '\u5BEB\u5BF6\u8C9D\u5716\u9928\u6C23\u98DB\u99AC\u9CE5\u9B5A\u9F8D\u95B1\u805E\u806F\u8077\u696D' +
+    '\u91AB\u85E5\u885B\u8996\u89BD\u89BA\u89C0\u89AA\u8A31\u8A2D\u8A66\u8A9E\u8B1D\u8B77\u8B9A\u8CA0' +
+    '\u8CAC\u8CB4\u8CB7\u8CE3\u8CEA\u8CBB\u8CC7\u8CFD\u8D95\u8DE1\u8F15\u8F38\u8FB2\u8FA6\u9023\u9060' +
+    '\u9069\u91CB\u9418\u967D\u9670\u968A\u96A8\u96AA\u96E3\u96DC\u96E2\u96F2\u9748\u975C\u9801\u9806' +
+    '\u9808\u984F\u98EF\u990A\u9A57\u9B25\u9B6F\u9EC3\u9F4A\u6FDF\u8166\u6A94\u7DE8\u78BC\u63DB\u8ECD' +
+    '\u7FA9\u611B\u8072\u52D9\u723E\u985E\u7D1A\u74B0\u6A19\u6E96\u5099\u50B3\u6B0A\u6B77\u58D3\u614B' +
+    '\u9EE8\u5718\u5E7E\u8AB0\u55CE\u5594\u6AA2\u6E2C\u78BA\u57F7\u5132\u8F09\u932F\u8AA4\u8A0A\u9215' +
+    '\u756B\u986F'
+);
+
+// The most frequent Hangul syllables of modern Korean
+const commonHangul = new Set(
+    '\uC774\uB2E4\uB294\uC758\uC5D0\uD558\uACE0\uC744\uAC00\uC9C0\uB85C\uD55C\uC11C\uAE30\uC0AC\uB9AC' +
+    '\uC5B4\uC790\uB3C4\uC73C\uB098\uC218\uB300\uC2DC\uB4E4\uC778\uC544\uC815\uAC8C\uD574\uADF8\uC788' +
+    '\uC801\uB2C8\uC694\uAC83\uC77C\uBD80\uBCF4\uC6B0\uC804\uC0C1\uC8FC\uC81C\uC7A5\uBA74\uB9CC\uB77C' +
+    '\uC640\uACFC\uC131\uACB0\uACBD\uB54C\uBB38\uAC70\uBE44\uAC19\uBC29\uB3D9\uC6D0\uB9D0\uB0B4\uC704' +
+    '\uC5EC\uC18C\uB9C8\uBBF8\uC138\uC800\uBAA8\uBC14\uC911\uACF5\uD604\uAD6C\uBB34\uC0DD\uC2E4\uB418' +
+    '\uBB3C\uC2E0\uBA85\uAD00\uC74C\uC120\uC601\uC5C8\uC2B5\uD588\uBA70\uD560\uB41C\uB354\uD130\uC5C6' +
+    '\uB610\uB144\uC88B\uC54C\uAE4C\uC6B4\uC57C\uB370\uD654\uB2E8\uAD6D\uB2F9\uBC1C\uD559\uD68C\uC6A9' +
+    '\uAC1C\uC9C4\uACC4\uD1B5\uB7EC\uB974\uB97C\uC740\uAC01\uB78C\uC600\uAED8\uC8E0\uB124\uC2ED\uC624' +
+    '\uC721\uCE60\uD314\uBC31\uCC9C\uC6D4\uBD84\uCD08\uAC04\uAD50\uCE58\uC5ED\uC220\uC5F0\uC2A4\uD15C' +
+    '\uD504\uB7A8\uD30C'
+);
+
+// Typographic characters Western text uses besides accented letters
+const westernPunctuation = new Set('\u00A0\u00AB\u00BB\u00B0\u00A9\u00AE\u00B7\u2013\u2014\u2018\u2019\u201A\u201C\u201D\u201E\u2022\u2026\u20AC');
+
+export type TextLanguage = 'chinese' | 'japanese' | 'korean' | 'western' | 'other';
+
+/**
+ * The language a legacy encoding is used for
+ */
+export function languageOf(encoding: string): TextLanguage {
+    if (/^(big5|big5-hkscs|cp950|gbk|gb2312|gb18030|cp936|euc-cn)$/.test(encoding)) {
+        return 'chinese';
+    }
+    if (/^(shift_jis|sjis|cp932|euc-jp)$/.test(encoding)) {
+        return 'japanese';
+    }
+    if (/^(euc-kr|cp949)$/.test(encoding)) {
+        return 'korean';
+    }
+    if (/^(windows-1252|iso-8859-1|iso-8859-15|windows-1250|iso-8859-2)$/.test(encoding)) {
+        return 'western';
+    }
+    return 'other';
+}
+
+function isCjkPunctuation(code: number): boolean {
+    // Half-width katakana and hangul (U+FF61-FFDC) are left out, they mostly turn up in misread bytes
+    return (code >= 0x3000 && code <= 0x303F) || (code >= 0xFF00 && code <= 0xFF60) || (code >= 0xFFE0 && code <= 0xFFEF);
+}
+
+/**
+ * Share of the non-ASCII characters of decoded text that are plausible for a language, 1 for pure ASCII
+ * Western text has isolated accented letters, so only non-ASCII runs of up to two characters count there
+ */
+export function plausibility(text: string, language: TextLanguage): number {
+    let total = 0;
+    let plausible = 0;
+    let run: string[] = [];
+    
+    const endRun = () => {
+        if (run.length > 0 && run.length <= 2) {
+            plausible += run.filter(c => /[\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u017F]/.test(c) || westernPunctuation.has(c)).length;
+        }
+        run = [];
+    };
+    
+    for (const char of text) {
+        const code = char.codePointAt(0) as number;
+        if (code < 0x80) {
+            endRun();
+            continue;
+        }
+        total++;
+        switch (language) {
+            case 'chinese':
+                plausible += commonHanzi.has(char) || isCjkPunctuation(code) ? 1 : 0;
+                break;
+            case 'japanese':
+                plausible += (code >= 0x3040 && code <= 0x30FF) || commonHanzi.has(char) || isCjkPunctuation(code) ? 1 : 0;
+                break;
+            case 'korean':
+                plausible += commonHangul.has(char) || isCjkPunctuation(code) ? 1 : 0;
+                break;
+            case 'western':
+                run.push(char);
+                break;
+            default:
+                plausible += /[\p{L}\p{P}]/u.test(char) ? 1 : 0;
+        }
+    }
+    endRun();
+    
+    return total === 0 ? 1 : plausible / total;
+}
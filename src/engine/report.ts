@@ -0,0 +1,155 @@
+/**
+ * Encoding inventory report
+ * Groups file analyses by encoding and renders them as Markdown, CSV or JSON
+ */
+
+import * as path from 'path';
+import { FileAnalysis } from './types';
+
+export interface EncodingGroup {
+    encoding: string;
+    files: FileAnalysis[];
+    totalSize: number;
+    averageConfidence: number;
+    withBOM: number;
+}
+
+export interface EncodingInventory {
+    root: string;
+    generatedAt: string;
+    totalFiles: number;
+    totalSize: number;
+    groups: EncodingGroup[];
+}
+
+/**
+ * Format a byte count for humans
+ */
+export function formatSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Group analyses by encoding, largest group first
+ */
+export function buildInventory(root: string, analyses: FileAnalysis[]): EncodingInventory {
+    const byEncoding = new Map<string, FileAnalysis[]>();
+    for (const analysis of analyses) {
+        const files = byEncoding.get(analysis.encoding) || [];
+        files.push(analysis);
+        byEncoding.set(analysis.encoding, files);
+    }
+
+    const groups: EncodingGroup[] = [...byEncoding.entries()].map(([encoding, files]) => ({
+        encoding,
+        files: files.sort((a, b) => a.filePath.localeCompare(b.filePath)),
+        totalSize: files.reduce((sum, f) => sum + f.size, 0),
+        averageConfidence: files.reduce((sum, f) => sum + f.confidence, 0) / files.length,
+        withBOM: files.filter(f => f.bom).length
+    }));
+    groups.sort((a, b) => b.files.length - a.files.length || a.encoding.localeCompare(b.encoding));
+
+    return {
+        root,
+        generatedAt: new Date().toISOString(),
+        totalFiles: analyses.length,
+        totalSize: analyses.reduce((sum, f) => sum + f.size, 0),
+        groups
+    };
+}
+
+/**
+ * Render the inventory as a Markdown document
+ */
+export function formatInventoryMarkdown(inventory: EncodingInventory): string {
+    const relative = (filePath: string) => path.relative(inventory.root, filePath) || path.basename(filePath);
+    const escapeCell = (value: string) => value.replace(/\|/g, '\\|');
+    const lines: string[] = [];
+
+    lines.push('# Encoding Inventory', '');
+    lines.push(`- Root: \`${inventory.root}\``);
+    lines.push(`- Generated: ${inventory.generatedAt}`);
+    lines.push(`- Files: ${inventory.totalFiles} (${formatSize(inventory.totalSize)})`, '');
+
+    lines.push('## Summary', '');
+    lines.push('| Encoding | Files | Total size | Avg. confidence | With BOM |');
+    lines.push('| --- | ---: | ---: | ---: | ---: |');
+    for (const group of inventory.groups) {
+        lines.push(`| ${group.encoding.toUpperCase()} | ${group.files.length} | ${formatSize(group.totalSize)} | ${(group.averageConfidence * 100).toFixed(1)}% | ${group.withBOM} |`);
+    }
+    lines.push('');
+
+    for (const group of inventory.groups) {
+        lines.push(`## ${group.encoding.toUpperCase()} (${group.files.length} files)`, '');
+        lines.push('| File | Confidence | Method | BOM | Line endings | Size |');
+        lines.push('| --- | ---: | --- | --- | --- | ---: |');
+        for (const file of group.files) {
+            const lineEndings = file.lineEndings === 'mixed'
+                ? `mixed (LF ${file.lineEndingCounts.lf}, CRLF ${file.lineEndingCounts.crlf}, CR ${file.lineEndingCounts.cr})`
+                : file.lineEndings;
+            const method = file.error ? `error: ${file.error}` : file.method;
+            lines.push(`| ${escapeCell(relative(file.filePath))} | ${(file.confidence * 100).toFixed(1)}% | ${escapeCell(method)} | ${file.bom ? file.bom.toUpperCase() : '-'} | ${lineEndings} | ${formatSize(file.size)} |`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Render the inventory as CSV, one row per file
+ */
+export function formatInventoryCsv(inventory: EncodingInventory): string {
+    const quote = (value: string | number) => {
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = [['path', 'encoding', 'confidence', 'method', 'bom', 'line_endings', 'lf', 'crlf', 'cr', 'size', 'error']];
+    for (const group of inventory.groups) {
+        for (const f of group.files) {
+            rows.push([
+                path.relative(inventory.root, f.filePath) || path.basename(f.filePath),
+                f.encoding,
+                f.confidence.toFixed(3),
+                f.method,
+                f.bom || '',
+                f.lineEndings,
+                String(f.lineEndingCounts.lf),
+                String(f.lineEndingCounts.crlf),
+                String(f.lineEndingCounts.cr),
+                String(f.size),
+                f.error || ''
+            ]);
+        }
+    }
+    return rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render the inventory as JSON
+ */
+export function formatInventoryJson(inventory: EncodingInventory): string {
+    return JSON.stringify({
+        root: inventory.root,
+        generatedAt: inventory.generatedAt,
+        totalFiles: inventory.totalFiles,
+        totalSize: inventory.totalSize,
+        summary: inventory.groups.map(g => ({
+            encoding: g.encoding,
+            files: g.files.length,
+            totalSize: g.totalSize,
+            averageConfidence: Number(g.averageConfidence.toFixed(3)),
+            withBOM: g.withBOM
+        })),
+        files: inventory.groups.flatMap(g => g.files.map(f => ({
+            ...f,
+            path: path.relative(inventory.root, f.filePath) || path.basename(f.filePath)
+        })))
+    }, null, 2);
+}
@@ -0,0 +1,341 @@
+/**
+ * Streaming transcoding for files too large to hold in memory
+ * Chunks go through iconv's stateful decoders and encoders, which keep multi-byte sequences that are
+ * split across chunk boundaries. A CR or a high surrogate at the end of decoded text waits for the next chunk.
+ */
+
+import * as crypto from 'crypto';
+import * as iconv from 'iconv-lite';
+import { applyUnmappablePolicy, bomFor, countLineEndings, createEncodabilityCheck, formatCodePoint, positionAfter } from './encoding';
+import { EngineWriteStream, LineEndingInventory, LossyCharacter, UnmappablePolicy } from './types';
+
+export interface StreamTranscodeOptions {
+    sourceEncoding: string;
+    targetEncoding: string; // A real encoding, "with BOM" already split off
+    writeBOM: boolean;
+    eol?: string; // Line ending every line gets, undefined keeps them as they are
+    unmappablePolicy: UnmappablePolicy;
+    substitute: string;
+    onProgress?: (bytesRead: number) => void;
+    isCancelled?: () => boolean;
+}
+
+export interface StreamTranscodeResult {
+    cancelled: boolean;
+    unchanged: boolean; // Output is byte for byte the input
+    lossless: boolean;
+    lossyCharacters: LossyCharacter[];
+    error?: string;
+    unmappableCount: number;
+    lineEndings: LineEndingInventory;
+    linesChanged: number;
+    bytesWritten: number;
+    contentHash: string; // SHA-256 of the output
+}
+
+// Lossy characters recorded for the report, the stream stops at the first problem anyway
+const maxRecorded = 20;
+
+/**
+ * Read at most size bytes from the start of a stream
+ */
+export async function readSample(input: AsyncIterable<Uint8Array>, size: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    for await (const chunk of input) {
+        chunks.push(Buffer.from(chunk));
+        length += chunk.length;
+        if (length >= size) {
+            break;
+        }
+    }
+    return Buffer.concat(chunks).subarray(0, size);
+}
+
+/**
+ * Offset of the first byte of a stream that is not plain 7-bit text, undefined when there is none
+ * Zero bytes count too, they are how UTF-16 and UTF-32 show up in otherwise ASCII text
+ */
+export async function findNonAscii(input: AsyncIterable<Uint8Array>): Promise<number | undefined> {
+    let offset = 0;
+    for await (const chunk of input) {
+        const index = chunk.findIndex(byte => byte === 0 || byte >= 0x80);
+        if (index >= 0) {
+            return offset + index;
+        }
+        offset += chunk.length;
+    }
+    return undefined;
+}
+
+/**
+ * Cut a sample after its last line feed, so detection never sees a multi-byte sequence cut in half
+ * Zero bytes right after the line feed belong to it in UTF-16LE and UTF-32LE
+ */
+export function trimToLineBoundary(sample: Buffer): Buffer {
+    const lastLineFeed = sample.lastIndexOf(0x0A);
+    if (lastLineFeed < 0) {
+        return sample;
+    }
+    let end = lastLineFeed + 1;
+    while (end < sample.length && end - lastLineFeed < 4 && sample[end] === 0) {
+        end++;
+    }
+    return sample.subarray(0, end);
+}
+
+/**
+ * SHA-256 and size of streamed content
+ */
+export async function hashStream(input: AsyncIterable<Uint8Array>): Promise<{ hash: string; size: number }> {
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    for await (const chunk of input) {
+        hash.update(chunk);
+        size += chunk.length;
+    }
+    return { hash: hash.digest('hex'), size };
+}
+
+/**
+ * Copy streamed content to a writer and close it
+ */
+export async function copyStream(input: AsyncIterable<Uint8Array>, output: EngineWriteStream): Promise<void> {
+    try {
+        for await (const chunk of input) {
+            await output.write(chunk);
+        }
+    } finally {
+        await output.close();
+    }
+}
+
+/**
+ * Split decoded text so no CR or high surrogate ends it, the held back character goes first next time
+ */
+function createCarry(): (text: string, final: boolean) => string {
+    let carry = '';
+    return (text, final) => {
+        let whole = carry + text;
+        carry = '';
+        if (!final && whole.length > 0) {
+            const last = whole.charCodeAt(whole.length - 1);
+            if (last === 0x0D || (last >= 0xD800 && last <= 0xDBFF)) {
+                carry = whole.slice(-1);
+                whole = whole.slice(0, -1);
+            }
+        }
+        return whole;
+    };
+}
+
+/**
+ * Count the line endings of streamed content, needed up front for the "majority" EOL policy
+ * Returns undefined when cancelled
+ */
+export async function scanLineEndings(
+    input: AsyncIterable<Uint8Array>,
+    sourceEncoding: string,
+    onProgress?: (bytesRead: number) => void,
+    isCancelled?: () => boolean
+): Promise<LineEndingInventory | undefined> {
+    const decoder = iconv.getDecoder(sourceEncoding);
+    const split = createCarry();
+    const inventory: LineEndingInventory = { lf: 0, crlf: 0, cr: 0 };
+    const add = (text: string) => {
+        const counts = countLineEndings(text);
+        inventory.lf += counts.lf;
+        inventory.crlf += counts.crlf;
+        inventory.cr += counts.cr;
+    };
+
+    let bytesRead = 0;
+    for await (const chunk of input) {
+        if (isCancelled?.()) {
+            return undefined;
+        }
+        add(split(decoder.write(Buffer.from(chunk)), false));
+        bytesRead += chunk.length;
+        onProgress?.(bytesRead);
+    }
+    add(split(decoder.end() ?? '', true));
+    return inventory;
+}
+
+/**
+ * The most common line ending, LF on a tie
+ */
+export function majorityLineEnding(inventory: LineEndingInventory): string {
+    const most = Math.max(inventory.lf, inventory.crlf, inventory.cr);
+    return inventory.lf === most ? '\n' : inventory.crlf === most ? '\r\n' : '\r';
+}
+
+/**
+ * Transcode streamed content into a writer, the writer is always closed
+ * Stops at the first character that would be lost, the output is then incomplete and must be discarded
+ */
+export async function transcodeStream(
+    input: AsyncIterable<Uint8Array>,
+    output: EngineWriteStream,
+    options: StreamTranscodeOptions
+): Promise<StreamTranscodeResult> {
+    const { sourceEncoding, targetEncoding, eol, unmappablePolicy } = options;
+    const decoder = iconv.getDecoder(sourceEncoding);
+    const encoder = iconv.getEncoder(targetEncoding, { addBOM: false });
+    const split = createCarry();
+    const canEncode = createEncodabilityCheck(targetEncoding);
+    const inputHash = crypto.createHash('sha256');
+    const outputHash = crypto.createHash('sha256');
+
+    // U+FFFD is only legitimate where the source bytes spell it, which most legacy encodings cannot
+    const replacementBytes = iconv.encode('\ufffd', sourceEncoding, { addBOM: false });
+    const replacementIsLegit = iconv.decode(replacementBytes, sourceEncoding) === '\ufffd';
+    let rawReplacements = 0;
+    let rawTail = Buffer.alloc(0);
+    let decodedReplacements = 0;
+
+    const result: StreamTranscodeResult = {
+        cancelled: false,
+        unchanged: false,
+        lossless: true,
+        lossyCharacters: [],
+        unmappableCount: 0,
+        lineEndings: { lf: 0, crlf: 0, cr: 0 },
+        linesChanged: 0,
+        bytesWritten: 0,
+        contentHash: ''
+    };
+
+    // Position of the first character of the next text piece, for reporting lossy characters
+    let line = 1;
+    let column = 1;
+
+    const write = async (bytes: Buffer | undefined) => {
+        if (bytes && bytes.length > 0) {
+            outputHash.update(bytes);
+            result.bytesWritten += bytes.length;
+            await output.write(bytes);
+        }
+    };
+
+    const recordLoss = (index: number, text: string, stage: 'decode' | 'encode') => {
+        if (result.lossyCharacters.length < maxRecorded) {
+            const before = positionAfter(text.slice(0, index));
+            result.lossyCharacters.push({
+                line: line + before.lineBreaks,
+                column: before.lineBreaks > 0 ? before.column : column + before.column - 1,
+                codePoint: text.codePointAt(index) ?? 0,
+                stage
+            });
+        }
+        result.lossless = false;
+    };
+
+    const processText = async (text: string) => {
+        if (text.length === 0) {
+            return;
+        }
+        const counts = countLineEndings(text);
+        result.lineEndings.lf += counts.lf;
+        result.lineEndings.crlf += counts.crlf;
+        result.lineEndings.cr += counts.cr;
+
+        // Only non-ASCII characters can fail to decode or encode
+        const nonAscii = /[^\x00-\x7F]/gu;
+        let match: RegExpExecArray | null;
+        while ((match = nonAscii.exec(text)) !== null) {
+            const char = match[0];
+            if (char === '\ufffd') {
+                decodedReplacements++;
+                if (!replacementIsLegit) {
+                    recordLoss(match.index, text, 'decode');
+                }
+            } else if (unmappablePolicy === 'fail' && !canEncode(char)) {
+                recordLoss(match.index, text, 'encode');
+            }
+        }
+
+        // Advance the position past this piece, a CR at its end waited for the next chunk so a CRLF is never split
+        const after = positionAfter(text);
+        line += after.lineBreaks;
+        column = after.lineBreaks > 0 ? after.column : column + after.column - 1;
+
+        if (!result.lossless) {
+            return;
+        }
+
+        let converted = text;
+        if (eol !== undefined) {
+            converted = converted.replace(/\r\n|\r|\n/g, ending => {
+                if (ending !== eol) {
+                    result.linesChanged++;
+                }
+                return eol;
+            });
+        }
+        if (unmappablePolicy !== 'fail') {
+            const unmappable = applyUnmappablePolicy(converted, targetEncoding, unmappablePolicy, options.substitute, true);
+            result.unmappableCount += unmappable.count;
+            converted = unmappable.text;
+        }
+        await write(encoder.write(converted));
+    };
+
+    try {
+        if (options.writeBOM) {
+            await write(bomFor(targetEncoding));
+        }
+
+        let bytesRead = 0;
+        for await (const chunk of input) {
+            if (options.isCancelled?.()) {
+                result.cancelled = true;
+                return result;
+            }
+            const bytes = Buffer.from(chunk);
+            inputHash.update(bytes);
+            if (replacementIsLegit) {
+                const window = Buffer.concat([rawTail, bytes]);
+                for (let i = window.indexOf(replacementBytes); i >= 0; i = window.indexOf(replacementBytes, i + replacementBytes.length)) {
+                    rawReplacements++;
+                }
+                rawTail = window.subarray(Math.max(0, window.length - replacementBytes.length + 1));
+            }
+
+            await processText(split(decoder.write(bytes), false));
+            bytesRead += bytes.length;
+            options.onProgress?.(bytesRead);
+            if (!result.lossless) {
+                break;
+            }
+        }
+
+        if (result.lossless) {
+            await processText(split(decoder.end() ?? '', true));
+            await write(encoder.end());
+        }
+    } finally {
+        await output.close();
+    }
+
+    // A legitimate source can still hold more U+FFFD than its bytes spell, then decoding failed somewhere
+    if (result.lossless && decodedReplacements > rawReplacements) {
+        result.lossless = false;
+    }
+
+    if (!result.lossless) {
+        const decodeLoss = result.lossyCharacters.some(c => c.stage === 'decode') || decodedReplacements > rawReplacements;
+        const details = result.lossyCharacters.slice(0, 5)
+            .map(c => `line ${c.line}, column ${c.column}: ${formatCodePoint(c.codePoint)}`)
+            .join('; ');
+        const cause = decodeLoss
+            ? `source does not decode cleanly as ${sourceEncoding.toUpperCase()}`
+            : `${targetEncoding.toUpperCase()} cannot represent some characters`;
+        result.error = `Lossy conversion, file not written: ${cause}${details ? ` - ${details}` : ''} (stopped at the first problem)`;
+        return result;
+    }
+
+    result.contentHash = outputHash.digest('hex');
+    result.unchanged = result.contentHash === inputHash.digest('hex');
+    return result;
+}
@@ -0,0 +1,267 @@
+/**
+ * Shared types for the conversion engine
+ * The engine only talks to the outside world through EngineHost,
+ * so the same code runs inside VS Code and from the command line
+ */
+
+// What to do with characters the target encoding has no mapping for
+export type UnmappablePolicy = 'fail' | 'substitute' | 'escape-unicode' | 'escape-html' | 'transliterate';
+
+// How line endings are rewritten during conversion, majority = the file's most common ending
+export type EolPolicy = 'keep' | 'lf' | 'crlf' | 'majority';
+
+// Declared encoding for files matching a glob, relative to the workspace root
+export interface EncodingRule {
+    pattern: string;
+    source: string;
+    target?: string; // Encoding these files should end up in, used instead of expectedEncoding
+}
+
+// A folder whose new and changed files are converted as they arrive
+export interface InboxFolder {
+    folder: string; // Relative to the workspace folder, or absolute
+    target?: string; // Encoding the files are converted to, defaults to their expected encoding
+    quarantine?: string; // Where failed and uncertain files are moved, relative to the inbox; empty = leave them and only flag them
+}
+
+// Whether a folder's .editorconfig charset is written after converting the folder
+export type EditorConfigWritePolicy = 'never' | 'ask' | 'always';
+
+// Whether converted Unicode files get a byte-order mark
+export type BomPolicy = 'preserve' | 'add' | 'strip';
+
+// Configuration interface
+export interface EncodingConverterConfig {
+    batchConcurrency: number;
+    streamingThresholdMB: number; // Files from this size on are streamed instead of read whole, 0 = never
+    createBackup: boolean;
+    showDetailedResults: boolean;
+    excludePatterns: string[]; // Globs, without a slash they match the name at any depth
+    includePatterns: string[]; // When set, only matching files are processed
+    respectGitignore: boolean;
+    autoReopenFiles: boolean;
+    unmappablePolicy: UnmappablePolicy;
+    unmappableSubstitute: string;
+    expectedEncoding: string; // Encoding the project mandates, used by diagnostics and check
+    diagnosticsEnabled: boolean;
+    transactionalBatch: boolean; // Batches commit all files or none
+    bomPolicy: BomPolicy;
+    eolPolicy: EolPolicy;
+    rules: EncodingRule[]; // First match wins, consulted before detection
+    useEditorConfig: boolean; // .editorconfig charset is the default target and expected encoding
+    editorConfigWriteCharset: EditorConfigWritePolicy;
+    backupDirectory: string; // Empty = the host's default backup location
+    backupRetention: BackupRetention;
+    favoriteEncodings: string[]; // Pinned on top of the encoding pickers
+    recentEncodingCount: number; // Recently used encodings listed after the favourites, 0 = none
+    watcherEnabled: boolean; // Detect files as they are opened or saved and offer to convert them
+    watcherAutoConvert: string[]; // Globs of files the watcher converts without asking
+    inboxFolders: InboxFolder[];
+    inboxMinConfidence: number; // Inbox files detected with less confidence are quarantined, not converted
+}
+
+// Limits for the backup store, 0 disables a limit
+export interface BackupRetention {
+    maxVersionsPerFile: number;
+    maxAgeDays: number;
+    maxTotalSizeMB: number;
+}
+
+// One stored version of a file, as recorded in the backup manifest
+export interface BackupEntry {
+    id: string;
+    originalPath: string;
+    timestamp: number;
+    sourceEncoding?: string;
+    targetEncoding?: string;
+    hash: string; // SHA-256 of the stored content
+    size: number;
+}
+
+// Result interfaces
+export interface ConversionResult {
+    success: boolean;
+    filePath: string;
+    originalEncoding?: string;
+    targetEncoding?: string;
+    fileSize?: number;
+    error?: string;
+    skipped?: boolean;
+    skipReason?: string;
+    backupCreated?: boolean;
+    backupId?: string; // Backup store entry holding the original content
+    contentHash?: string; // SHA-256 of the written content, to notice later edits
+    bomChange?: 'added' | 'removed';
+    lineEndings?: LineEndingInventory; // Line endings of the original, counted on the decoded text
+    eolPolicy?: EolPolicy;
+    linesChanged?: number; // Line endings rewritten by the EOL policy
+    rolledBack?: boolean; // Converted fine, but the transactional batch it belonged to was rolled back
+    detectedOriginalEncoding?: string; // The actual detected encoding before conversion
+    runnersUp?: EncodingCandidate[]; // Candidates detection ranked below the encoding that was used
+    lossy?: boolean; // Verification found data loss, file was left untouched
+    lossyCharacters?: LossyCharacter[];
+    unmappablePolicy?: UnmappablePolicy;
+    unmappableCount?: number; // Characters rewritten by the unmappable policy
+}
+
+// A character that would not survive the conversion
+export interface LossyCharacter {
+    line: number;   // 1-based
+    column: number; // 1-based, counted in characters
+    codePoint: number;
+    stage: 'decode' | 'encode';
+}
+
+export interface VerificationResult {
+    lossless: boolean;
+    lossyCharacters: LossyCharacter[];
+    totalLossy: number;
+    error?: string;
+}
+
+// A conversion computed in memory, ready to be previewed or written
+export interface PreparedConversion {
+    result: ConversionResult; // Final result when there is nothing to write
+    rawBuffer?: Buffer;
+    originalText?: string;
+    convertedText?: string;
+    encodedBuffer?: Buffer; // Only set when the file should be written
+}
+
+export interface BatchConversionResult {
+    totalFiles: number;
+    processed: number;
+    converted: number;
+    skipped: number;
+    errors: number;
+    lossy: number;
+    results: ConversionResult[];
+    transaction?: 'committed' | 'rolled-back'; // Only set for transactional batches
+    rollbackReason?: string;
+}
+
+export interface EncodingDetection {
+    encoding: string;
+    confidence: number;
+    method: string;
+    candidates?: EncodingCandidate[]; // Ranked, the first one is the detected encoding
+}
+
+// One possible encoding of some content, with the evidence for it
+export interface EncodingCandidate {
+    encoding: string;
+    score: number; // 0-1, candidates are ranked by it
+    reasons: string[];
+}
+
+// A candidate source encoding with the text it produces, for telling encodings apart by eye
+export interface EncodingPreview extends EncodingCandidate {
+    lines: string[]; // First lines with non-ASCII characters, where encodings differ
+    replacementCharacters: number; // U+FFFD from bytes that did not decode, one per undecodable sequence
+}
+
+// Consecutive lines of a file in one encoding, lines are 1-based and inclusive, bytes end-exclusive
+export interface EncodingSegment {
+    encoding: string;
+    startLine: number;
+    endLine: number;
+    start: number;
+    end: number;
+}
+
+// Per-line encodings of a file, mixed when the segments use more than one
+export interface MixedEncodingAnalysis {
+    mixed: boolean;
+    encodings: string[]; // In order of first appearance
+    segments: EncodingSegment[];
+}
+
+// One way to undo a misreading: encoding the text as misreadAs gives back bytes that were in original
+export interface MojibakeRepair {
+    misreadAs: string;
+    original: string;
+    score: number; // 0-1, repairs are ranked by it
+    reasons: string[];
+    linesRepaired: number;
+    samples: { before: string; after: string }[]; // First repaired lines
+}
+
+export type LineEndingStyle = 'LF' | 'CRLF' | 'CR' | 'mixed' | 'none';
+
+export interface LineEndingInventory {
+    lf: number;
+    crlf: number;
+    cr: number;
+}
+
+// Read-only facts about one file, used by the inventory report
+export interface FileAnalysis {
+    filePath: string;
+    encoding: string;
+    confidence: number;
+    method: string;
+    bom?: string; // Encoding named by the byte-order mark, if there is one
+    lineEndings: LineEndingStyle;
+    lineEndingCounts: LineEndingInventory;
+    size: number;
+    error?: string;
+}
+
+// Files and folders one exclusion rule kept out of a collection
+export interface ExclusionCount {
+    files: number;
+    folders: number;
+}
+
+// Files found below a directory, and what was left out by which rule
+export interface FileCollection {
+    files: string[];
+    excluded: { [rule: string]: ExclusionCount };
+}
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type FileEntryType = 'file' | 'directory' | 'other';
+
+export interface FileStat {
+    type: FileEntryType;
+    size: number;
+    mtime: number;
+}
+
+/**
+ * File system access used by the engine
+ * Paths are plain file system paths; stat rejects when the path does not exist
+ */
+export interface EngineFileSystem {
+    readFile(filePath: string): Promise<Uint8Array>;
+    writeFile(filePath: string, content: Uint8Array): Promise<void>;
+    stat(filePath: string): Promise<FileStat>;
+    readDirectory(dirPath: string): Promise<[string, FileEntryType][]>;
+    delete(filePath: string): Promise<void>;
+    createDirectory(dirPath: string): Promise<void>; // Creates missing parents, succeeds if it exists
+    rename(oldPath: string, newPath: string): Promise<void>; // Replaces newPath if it exists
+    // Streaming access for large files, hosts without it convert everything in memory
+    readStream?(filePath: string, start?: number, end?: number): AsyncIterable<Uint8Array>; // end is inclusive
+    writeStream?(filePath: string): Promise<EngineWriteStream>; // Creates or truncates
+}
+
+// Sequential writer returned by EngineFileSystem.writeStream
+export interface EngineWriteStream {
+    write(chunk: Uint8Array): Promise<void>;
+    close(): Promise<void>; // Safe to call more than once
+}
+
+export interface EngineHost {
+    fs: EngineFileSystem;
+    getConfig(): EncodingConverterConfig;
+    log(message: string, level?: LogLevel): void;
+    // Where backups go unless the backupDirectory setting overrides it
+    defaultBackupDirectory: string;
+    // Root that rule patterns are relative to
+    getWorkspaceRoot?(filePath: string): string | undefined;
+    // Exclude globs the editor maintains (e.g. files.exclude), grouped by where they come from
+    getExcludePatterns?(root: string): { source: string; patterns: string[] }[];
+    // Encoding the editor already decided on for an open file, if any
+    getKnownEncoding?(filePath: string): string | undefined;
+}
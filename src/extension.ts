@@ -15,42 +15,45 @@
  */
 
 import * as vscode from 'vscode';
-import * as iconv from 'iconv-lite';
-import * as jschardet from 'jschardet';
-import detectFile from 'detect-file-encoding-and-language';
 import * as path from 'path';
-
-// Configuration interface
-interface EncodingConverterConfig {
-    batchConcurrency: number;
-    createBackup: boolean;
-    showDetailedResults: boolean;
-    excludePatterns: string[];
-    autoReopenFiles: boolean;
-}
-
-// Result interfaces
-interface ConversionResult {
-    success: boolean;
-    filePath: string;
-    originalEncoding?: string;
-    targetEncoding?: string;
-    fileSize?: number;
-    error?: string;
-    skipped?: boolean;
-    skipReason?: string;
-    backupCreated?: boolean;
-    detectedOriginalEncoding?: string; // The actual detected encoding before conversion
-}
-
-interface BatchConversionResult {
-    totalFiles: number;
-    processed: number;
-    converted: number;
-    skipped: number;
-    errors: number;
-    results: ConversionResult[];
-}
+import {
+    BatchConversionResult,
+    BomPolicy,
+    buildInventory,
+    ConversionResult,
+    createConversionEngine,
+    detectBOM,
+    EncodingConverterConfig,
+    EncodingDetection,
+    EditorConfigWritePolicy,
+    EncodingRule,
+    EolPolicy,
+    FileAnalysis,
+    FileCollection,
+    FileEntryType,
+    formatInventoryCsv,
+    formatInventoryJson,
+    formatInventoryMarkdown,
+    formatSize,
+    InboxFolder,
+    normalizeEncoding,
+    openFileWriteStream,
+    PreparedConversion,
+    readFileStream,
+    UnmappablePolicy
+} from './engine';
+import { registerBackupHistory } from './backupHistory';
+import { registerConversionJournal } from './conversionJournal';
+import { convertToExpectedEncodingCommand, registerEncodingDiagnostics } from './diagnostics';
+import { registerEditorConfig } from './editorConfig';
+import { registerEncodingPicker } from './encodingPicker';
+import { EncodingItem, registerEncodingChoices } from './encodingChoices';
+import { registerSelectionCommands } from './selectionCommands';
+import { registerEncodingWatcher } from './encodingWatcher';
+import { registerInboxFolders } from './inboxFolders';
+import { registerMixedEncoding } from './mixedEncoding';
+import { registerMojibakeRepair } from './mojibakeRepair';
+import { registerEncodingStatusBar } from './statusBar';
 
 // Output channel for logging
 let outputChannel: vscode.OutputChannel;
@@ -94,13 +97,39 @@ export function activate(context: vscode.ExtensionContext) {
         const config = vscode.workspace.getConfiguration('encodingConverter');
         return {
             batchConcurrency: config.get<number>('batchConcurrency', 5),
+            streamingThresholdMB: config.get<number>('streaming.thresholdMB', 50),
             createBackup: config.get<boolean>('createBackup', true),
             showDetailedResults: config.get<boolean>('showDetailedResults', true),
             excludePatterns: config.get<string[]>('excludePatterns', [
                 '*.exe', '*.dll', '*.so', '*.dylib', '*.bin', '*.pdf', 
-                '*.jpg', '*.png', '*.gif', '*.zip', '*.tar', '*.gz'
+                '*.jpg', '*.png', '*.gif', '*.zip', '*.tar', '*.gz',
+                '**/.git/**', '**/node_modules/**'
             ]),
-            autoReopenFiles: config.get<boolean>('autoReopenFiles', true)
+            includePatterns: config.get<string[]>('includePatterns', []),
+            respectGitignore: config.get<boolean>('respectGitignore', true),
+            autoReopenFiles: config.get<boolean>('autoReopenFiles', true),
+            unmappablePolicy: config.get<UnmappablePolicy>('unmappablePolicy', 'fail'),
+            unmappableSubstitute: config.get<string>('unmappableSubstitute', '?'),
+            expectedEncoding: config.get<string>('expectedEncoding', 'utf-8'),
+            diagnosticsEnabled: config.get<boolean>('diagnostics.enabled', false),
+            transactionalBatch: config.get<boolean>('transactionalBatch', false),
+            bomPolicy: config.get<BomPolicy>('bomPolicy', 'preserve'),
+            eolPolicy: config.get<EolPolicy>('eol', 'keep'),
+            rules: config.get<EncodingRule[]>('rules', []),
+            useEditorConfig: config.get<boolean>('editorconfig.enabled', true),
+            editorConfigWriteCharset: config.get<EditorConfigWritePolicy>('editorconfig.writeCharset', 'ask'),
+            backupDirectory: config.get<string>('backup.directory', ''),
+            backupRetention: {
+                maxVersionsPerFile: config.get<number>('backup.maxVersionsPerFile', 10),
+                maxAgeDays: config.get<number>('backup.maxAgeDays', 30),
+                maxTotalSizeMB: config.get<number>('backup.maxTotalSizeMB', 500)
+            },
+            favoriteEncodings: config.get<string[]>('encodings.favorites', []),
+            recentEncodingCount: config.get<number>('encodings.recentCount', 5),
+            watcherEnabled: config.get<boolean>('watcher.enabled', false),
+            watcherAutoConvert: config.get<string[]>('watcher.autoConvert', []),
+            inboxFolders: config.get<InboxFolder[]>('inbox.folders', []),
+            inboxMinConfidence: config.get<number>('inbox.minConfidence', 0.8)
         };
     }
 
@@ -115,90 +144,216 @@ export function activate(context: vscode.ExtensionContext) {
     }
 
     /**
-     * Check if file should be processed
-     * This function filters out files that don't need processing, avoiding binary files
+     * Map VS Code file types onto the engine's file types
      */
-    function shouldProcessFile(uri: vscode.Uri, config: EncodingConverterConfig): { shouldProcess: boolean; reason?: string } {
-        const filePath = uri.fsPath;
-        const fileName = path.basename(filePath);
-        const fileExtension = path.extname(fileName).toLowerCase();
-        
-        // Skip untitled files (unsaved files)
-        if (uri.scheme === 'untitled' || filePath.startsWith('untitled:')) {
-            return { shouldProcess: false, reason: 'Untitled/unsaved file' };
+    function toFileEntryType(type: vscode.FileType): FileEntryType {
+        if (type === vscode.FileType.File) {
+            return 'file';
         }
-        
-        // Check exclude patterns
-        for (const pattern of config.excludePatterns) {
-            const regex = new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.'));
-            if (regex.test(fileName)) {
-                return { shouldProcess: false, reason: `Excluded by pattern: ${pattern}` };
+        if (type === vscode.FileType.Directory) {
+            return 'directory';
+        }
+        return 'other';
+    }
+
+    /**
+     * Engine paths are file system paths, untitled documents keep their URI so they can be skipped
+     */
+    function toEnginePath(uri: vscode.Uri): string {
+        return uri.scheme === 'untitled' ? uri.toString() : uri.fsPath;
+    }
+
+    // The conversion engine only reaches VS Code through this host
+    const engine = createConversionEngine({
+        fs: {
+            readFile: async filePath => vscode.workspace.fs.readFile(vscode.Uri.file(filePath)),
+            writeFile: async (filePath, content) => vscode.workspace.fs.writeFile(vscode.Uri.file(filePath), content),
+            stat: async filePath => {
+                const stat = await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+                return { type: toFileEntryType(stat.type), size: stat.size, mtime: stat.mtime };
+            },
+            readDirectory: async dirPath => {
+                const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dirPath));
+                return entries.map(([name, type]): [string, FileEntryType] => [name, toFileEntryType(type)]);
+            },
+            delete: async filePath => vscode.workspace.fs.delete(vscode.Uri.file(filePath)),
+            createDirectory: async dirPath => vscode.workspace.fs.createDirectory(vscode.Uri.file(dirPath)),
+            rename: async (oldPath, newPath) => vscode.workspace.fs.rename(vscode.Uri.file(oldPath), vscode.Uri.file(newPath), { overwrite: true }),
+            // vscode.workspace.fs has no streams, engine paths are local files so Node's fs serves them
+            readStream: readFileStream,
+            writeStream: openFileWriteStream
+        },
+        getConfig,
+        log,
+        defaultBackupDirectory: path.join(context.globalStorageUri.fsPath, 'backups'),
+        getWorkspaceRoot: filePath => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath,
+        // files.exclude and search.exclude of the folder, entries with a "when" clause are not evaluated
+        getExcludePatterns: root => {
+            const settings = vscode.workspace.getConfiguration('encodingConverter');
+            const sources = [
+                { source: 'files.exclude', enabled: settings.get<boolean>('respectFilesExclude', true) },
+                { source: 'search.exclude', enabled: settings.get<boolean>('respectSearchExclude', true) }
+            ];
+            return sources.filter(s => s.enabled).map(({ source }) => {
+                const [section, key] = source.split('.');
+                const globs = vscode.workspace.getConfiguration(section, vscode.Uri.file(root)).get<{ [glob: string]: unknown }>(key, {});
+                return { source, patterns: Object.keys(globs).filter(glob => globs[glob] === true) };
+            });
+        },
+        // Method 1 of detection: the encoding VS Code already uses for an open document
+        getKnownEncoding: filePath => {
+            const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+            return openDocument ? (openDocument as any).encoding || (openDocument as any)._encoding : undefined;
+        }
+    });
+
+    /**
+     * Detect file encoding with multiple methods
+     */
+    function detectEncoding(uri: vscode.Uri): Promise<EncodingDetection> {
+        return engine.detectEncoding(toEnginePath(uri));
+    }
+
+    /**
+     * Run detection, decode, encode and verification in memory without touching the file
+     */
+    function prepareConversion(
+        uri: vscode.Uri,
+        sourceEncoding?: string,
+        targetEncoding: string = 'utf8',
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy
+    ): Promise<PreparedConversion> {
+        return engine.prepareConversion(toEnginePath(uri), sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy);
+    }
+
+    /**
+     * Write a prepared conversion to disk, creating a backup first if enabled
+     */
+    function writePreparedConversion(uri: vscode.Uri, prepared: PreparedConversion): Promise<ConversionResult> {
+        return engine.writePreparedConversion(toEnginePath(uri), prepared);
+    }
+
+    /**
+     * Report the byte progress of a streamed file, at most once per percent
+     * Batches move the bar per file, so they only pass the message
+     */
+    function byteProgress(
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        label: string,
+        moveBar: boolean
+    ): (bytesProcessed: number, totalBytes: number) => void {
+        let lastPercent = 0;
+        return (bytesProcessed, totalBytes) => {
+            const percent = Math.floor((bytesProcessed / totalBytes) * 100);
+            if (percent > lastPercent) {
+                progress.report({
+                    message: `${label}: ${formatSize(bytesProcessed)} of ${formatSize(totalBytes)}`,
+                    increment: moveBar ? percent - lastPercent : undefined
+                });
+                lastPercent = percent;
             }
+        };
+    }
+
+    /**
+     * Convert file with comprehensive error handling
+     * A large file converted on its own gets a cancellable progress notification
+     */
+    async function convertFile(
+        uri: vscode.Uri,
+        sourceEncoding?: string,
+        targetEncoding: string = 'utf8',
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        onProgress?: (bytesProcessed: number, totalBytes: number) => void,
+        isCancelled?: () => boolean
+    ): Promise<ConversionResult> {
+        const filePath = toEnginePath(uri);
+        let fileSize = 0;
+        if (!onProgress && uri.scheme === 'file') {
+            fileSize = await vscode.workspace.fs.stat(uri).then(stat => stat.size, () => 0);
         }
-        
-        // Check common binary file extensions
-        // This list has been accumulated over time to avoid processing binary files
-        const binaryExtensions = [
-            '.exe', '.dll', '.so', '.dylib', '.bin', '.obj', '.o', '.a', '.lib',
-            '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.tiff', '.ico', '.webp',
-            '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.flv', '.mkv', '.wav', '.ogg',
-            '.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz', '.lzma',
-            '.pdf', '.doc', '.docx', '.ppt', '.pptx', '.xls', '.xlsx'
-        ];
-        
-        if (binaryExtensions.includes(fileExtension)) {
-            return { shouldProcess: false, reason: 'Binary file type' };
+        if (!engine.isStreamed(fileSize)) {
+            return engine.convertFile(filePath, sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy, onProgress, isCancelled);
         }
         
-        return { shouldProcess: true };
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Converting ${path.basename(filePath)} (${formatSize(fileSize)})`,
+            cancellable: true
+        }, (progress, token) => engine.convertFile(
+            filePath,
+            sourceEncoding,
+            targetEncoding,
+            unmappablePolicy,
+            eolPolicy,
+            byteProgress(progress, path.basename(filePath), true),
+            () => token.isCancellationRequested
+        ));
     }
 
     /**
-     * Get file size for logging
+     * Encoding a file should end up in: rule target, .editorconfig charset or the setting
      */
-    async function getFileSize(uri: vscode.Uri): Promise<number> {
-        try {
-            const stat = await vscode.workspace.fs.stat(uri);
-            return stat.size;
-        } catch (error) {
-            return 0;
-        }
+    function expectedEncodingFor(uri: vscode.Uri): Promise<string> {
+        return engine.expectedEncodingFor(toEnginePath(uri));
     }
 
     /**
-     * Create backup file
+     * Get all files in directory recursively
      */
-    async function createBackup(uri: vscode.Uri): Promise<boolean> {
-        try {
-            const originalContent = await vscode.workspace.fs.readFile(uri);
-            let backupPath = uri.fsPath + '.bak';
-            let backupUri = vscode.Uri.file(backupPath);
-            
-            // Check if backup already exists and create unique name if needed
-            let counter = 1;
-            while (true) {
-                try {
-                    await vscode.workspace.fs.stat(backupUri);
-                    // Backup exists, try with number suffix
-                    backupPath = uri.fsPath + `.bak.${counter}`;
-                    backupUri = vscode.Uri.file(backupPath);
-                    counter++;
-                    if (counter > 100) {
-                        throw new Error('Too many backup files exist');
-                    }
-                } catch (statError) {
-                    // Backup doesn't exist, we can use this name
-                    break;
+    async function getFilesInDirectory(uri: vscode.Uri): Promise<vscode.Uri[]> {
+        const files = await engine.getFilesInDirectory(uri.fsPath);
+        return files.map(filePath => vscode.Uri.file(filePath));
+    }
+    /**
+     * Collect the files of a batch command from the explorer selection
+     * folderUri is set when exactly one folder was selected
+     */
+    async function collectBatchFiles(
+        uri?: vscode.Uri,
+        uris?: vscode.Uri[]
+    ): Promise<{ files: vscode.Uri[]; folderUri?: vscode.Uri; excluded: FileCollection['excluded'] }> {
+        const selection = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+        const files: vscode.Uri[] = [];
+        const excluded: FileCollection['excluded'] = {};
+        let folderUri: vscode.Uri | undefined;
+        
+        for (const selected of selection) {
+            const stat = await vscode.workspace.fs.stat(selected);
+            if (stat.type === vscode.FileType.File) {
+                files.push(selected);
+            } else if (stat.type === vscode.FileType.Directory) {
+                const collection = await engine.collectFiles(selected.fsPath);
+                files.push(...collection.files.map(filePath => vscode.Uri.file(filePath)));
+                for (const [rule, count] of Object.entries(collection.excluded)) {
+                    const total = excluded[rule] ?? (excluded[rule] = { files: 0, folders: 0 });
+                    total.files += count.files;
+                    total.folders += count.folders;
                 }
+                folderUri = selection.length === 1 ? selected : undefined;
             }
-            
-            await vscode.workspace.fs.writeFile(backupUri, originalContent);
-            log(`Backup created: ${backupPath}`);
-            return true;
-        } catch (error) {
-            log(`Failed to create backup: ${error}`, 'error');
-            return false;
         }
+        return { files, folderUri, excluded };
+    }
+
+    /**
+     * One line per exclusion rule, most excluded first
+     */
+    function formatExclusions(excluded: FileCollection['excluded']): string[] {
+        return Object.entries(excluded)
+            .sort(([, a], [, b]) => (b.files + b.folders) - (a.files + a.folders))
+            .map(([rule, count]) => {
+                const parts: string[] = [];
+                if (count.files > 0) {
+                    parts.push(`${count.files} file(s)`);
+                }
+                if (count.folders > 0) {
+                    parts.push(`${count.folders} folder(s)`);
+                }
+                return `${rule}: ${parts.join(', ')}`;
+            });
     }
 
     /**
@@ -233,429 +388,333 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }
 
+    // Every conversion is journaled so it can be undone later, even after a restart
+    const journal = registerConversionJournal(context, engine, getConfig, log, reopenFileWithNewEncoding);
+    const encodingPicker = registerEncodingPicker(context, engine, log);
+    const encodingChoices = registerEncodingChoices(context, getConfig, log);
+
     /**
-     * Normalize encoding name to standard format
+     * Ask how to handle characters the target encoding cannot represent
+     * Unicode targets can represent everything, so no question is asked for them
      */
-    function normalizeEncoding(encoding: string): string {
-        const normalized = encoding.toLowerCase().trim();
-        
-        // Handle common variations
-        const encodingMap: { [key: string]: string } = {
-            'utf8': 'utf-8',
-            'utf16': 'utf-16',
-            'utf16le': 'utf-16le',
-            'utf16be': 'utf-16be',
-            'ascii': 'ascii',
-            'latin1': 'iso-8859-1',
-            'cp1252': 'windows-1252',
-            'gb18030': 'gb18030'
-        };
-        
-        return encodingMap[normalized] || normalized;
+    async function pickUnmappablePolicy(targetEncoding: string): Promise<UnmappablePolicy | undefined> {
+        const config = getConfig();
+        if (normalizeEncoding(targetEncoding).startsWith('utf')) {
+            return config.unmappablePolicy;
+        }
+
+        const policyOptions: { label: string; description: string; policy: UnmappablePolicy }[] = [
+            { label: 'Fail', description: 'Do not write files that contain unmappable characters', policy: 'fail' },
+            { label: 'Substitute', description: `Replace with "${config.unmappableSubstitute}"`, policy: 'substitute' },
+            { label: 'Escape as \\uXXXX', description: 'e.g. \\u00E9', policy: 'escape-unicode' },
+            { label: 'Escape as HTML/XML entities', description: 'e.g. &#xE9;', policy: 'escape-html' },
+            { label: 'Transliterate', description: 'Use a close equivalent, e.g. \u00E9 -> e', policy: 'transliterate' }
+        ];
+        const ordered = [
+            ...policyOptions.filter(o => o.policy === config.unmappablePolicy).map(o => ({ ...o, detail: 'Default from settings' })),
+            ...policyOptions.filter(o => o.policy !== config.unmappablePolicy)
+        ];
+
+        const selected = await vscode.window.showQuickPick(ordered, {
+            placeHolder: `Characters ${targetEncoding.toUpperCase()} cannot represent should be...`,
+            ignoreFocusOut: true
+        });
+        return selected?.policy;
     }
 
+    // How each EOL policy is described in pickers and dialogs
+    const eolLabels: { [policy in EolPolicy]: string } = {
+        keep: 'Keep as they are',
+        lf: 'LF (Unix)',
+        crlf: 'CRLF (Windows)',
+        majority: 'Normalize mixed files to their most common ending'
+    };
+
     /**
-     * Detect file encoding with multiple methods
+     * Ask what to do with line endings, the default from settings is listed first
      */
-    async function detectEncoding(uri: vscode.Uri): Promise<{ encoding: string; confidence: number; method: string }> {
-        try {
-            const raw = await vscode.workspace.fs.readFile(uri);
-            const rawBuffer = Buffer.from(raw);
-            
-            // Handle empty files
-            if (rawBuffer.length === 0) {
-                return { encoding: 'utf-8', confidence: 1.0, method: 'empty-file' };
-            }
-            
-            // Handle very small files (less than 4 bytes)
-            if (rawBuffer.length < 4) {
-                // Check if it's pure ASCII
-                const isAscii = rawBuffer.every(byte => byte < 128 && byte > 0);
-                if (isAscii) {
-                    return { encoding: 'ascii', confidence: 0.9, method: 'small-ascii' };
-                }
-                return { encoding: 'utf-8', confidence: 0.7, method: 'small-file' };
-            }
-            
-            // Method 1: VS Code's encoding detection
-            const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
-            if (openDocument) {
-                const vscodeEncoding = (openDocument as any).encoding || (openDocument as any)._encoding;
-                if (vscodeEncoding && vscodeEncoding !== 'utf8' && vscodeEncoding !== 'utf-8') {
-                    return { encoding: normalizeEncoding(vscodeEncoding), confidence: 0.95, method: 'vscode' };
-                }
-            }
-            
-            // Method 2: jschardet
-            try {
-                const result = jschardet.detect(rawBuffer);
-                if (result && result.encoding && result.confidence > 0.7) {
-                    return { encoding: normalizeEncoding(result.encoding), confidence: result.confidence, method: 'jschardet' };
-                }
-            } catch (error) {
-                log(`jschardet failed: ${error}`, 'warn');
-            }
-            
-            // Method 3: detect-file-encoding-and-language
-            try {
-                const info = await detectFile(rawBuffer);
-                if (info.encoding && info.encoding.toLowerCase() !== 'utf-8') {
-                    return { encoding: normalizeEncoding(info.encoding), confidence: 0.8, method: 'detect-file-encoding-and-language' };
-                }
-            } catch (error) {
-                log(`detect-file-encoding-and-language failed: ${error}`, 'warn');
-            }
-            
-            // Method 4: Heuristic detection
-            const commonEncodings = ['big5', 'gbk', 'gb2312', 'shift_jis', 'euc-kr', 'iso-8859-1', 'windows-1252'];
-            for (const testEncoding of commonEncodings) {
-                try {
-                    const testText = iconv.decode(rawBuffer, testEncoding);
-                    const replacementCount = (testText.match(/\ufffd/g) || []).length;
-                    
-                    // Dynamic threshold based on file size
-                    const threshold = rawBuffer.length < 100 ? 
-                        Math.max(1, Math.floor(rawBuffer.length * 0.1)) : // 10% for very small files, minimum 1
-                        Math.floor(rawBuffer.length * 0.05); // 5% for larger files
-                    
-                    if (replacementCount < threshold) {
-                        return { encoding: normalizeEncoding(testEncoding), confidence: 0.6, method: 'heuristic' };
-                    }
-                } catch (error) {
-                    // Continue to next encoding
-                }
+    async function pickEolPolicy(): Promise<EolPolicy | undefined> {
+        const config = getConfig();
+        const policies: EolPolicy[] = ['keep', 'lf', 'crlf', 'majority'];
+        const ordered = [config.eolPolicy, ...policies.filter(p => p !== config.eolPolicy)];
+
+        const selected = await vscode.window.showQuickPick(
+            ordered.map(policy => ({
+                label: eolLabels[policy],
+                detail: policy === config.eolPolicy ? 'Default from settings' : undefined,
+                policy
+            })),
+            { placeHolder: 'Line endings of the converted files...', ignoreFocusOut: true }
+        );
+        return selected?.policy;
+    }
+
+    // Virtual documents backing the preview diff, keyed by preview URI
+    const previewScheme = 'encoding-converter-preview';
+    const previewContents = new Map<string, string>();
+    let previewCounter = 0;
+    
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(previewScheme, {
+            provideTextDocumentContent: (uri: vscode.Uri) => previewContents.get(uri.toString()) ?? ''
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === previewScheme) {
+                previewContents.delete(document.uri.toString());
             }
-            
-            // Default to UTF-8
-            return { encoding: 'utf-8', confidence: 0.5, method: 'default' };
-        } catch (error) {
-            log(`Encoding detection failed: ${error}`, 'error');
-            return { encoding: 'utf-8', confidence: 0.1, method: 'fallback' };
+        })
+    );
+
+    /**
+     * Open a side-by-side diff of the decoded original and the converted text
+     */
+    async function showConversionDiff(uri: vscode.Uri, prepared: PreparedConversion, preserveFocus: boolean = false): Promise<void> {
+        // A fresh query per preview so VS Code never shows a cached document
+        previewCounter++;
+        const originalUri = uri.with({ scheme: previewScheme, query: `original-${previewCounter}` });
+        const convertedUri = uri.with({ scheme: previewScheme, query: `converted-${previewCounter}` });
+        previewContents.set(originalUri.toString(), prepared.originalText ?? '');
+        previewContents.set(convertedUri.toString(), prepared.convertedText ?? '');
+        
+        const { originalEncoding, targetEncoding } = prepared.result;
+        const title = `${path.basename(uri.fsPath)} (${originalEncoding?.toUpperCase()} <-> ${targetEncoding?.toUpperCase()}) Preview`;
+        await vscode.commands.executeCommand('vscode.diff', originalUri, convertedUri, title, { preview: true, preserveFocus });
+    }
+
+    /**
+     * Close any preview diff tabs that are still open
+     */
+    async function closeConversionDiffs(): Promise<void> {
+        const previewTabs = vscode.window.tabGroups.all.flatMap(group =>
+            group.tabs.filter(tab =>
+                tab.input instanceof vscode.TabInputTextDiff &&
+                tab.input.modified.scheme === previewScheme
+            )
+        );
+        if (previewTabs.length > 0) {
+            await vscode.window.tabGroups.close(previewTabs);
         }
     }
 
     /**
-     * Convert file with comprehensive error handling
+     * Show the diff of a prepared conversion and write it if the user applies it
      */
-    async function convertFile(uri: vscode.Uri, sourceEncoding?: string, targetEncoding: string = 'utf8'): Promise<ConversionResult> {
-        const config = getConfig();
-        const filePath = uri.fsPath;
-        const fileName = path.basename(filePath);
+    async function applyWithPreview(targetUri: vscode.Uri, prepared: PreparedConversion): Promise<void> {
+        const { result } = prepared;
+        const targetLabel = result.targetEncoding?.toUpperCase();
+        await showConversionDiff(targetUri, prepared);
         
-        log(`Starting conversion: ${fileName}`);
+        const choice = await vscode.window.showInformationMessage(
+            `Preview: ${path.basename(result.filePath)} from ${result.originalEncoding?.toUpperCase()} to ${targetLabel}. Apply this conversion?`,
+            'Apply',
+            'Discard'
+        );
         
-        // Check if file should be processed
-        const processCheck = shouldProcessFile(uri, config);
-        if (!processCheck.shouldProcess) {
-            return {
-                success: false,
-                filePath,
-                skipped: true,
-                skipReason: processCheck.reason
-            };
-        }
+        await closeConversionDiffs();
         
-        // Get file size for logging
-        const fileSize = await getFileSize(uri);
+        if (choice !== 'Apply') {
+            log(`Preview discarded: ${path.basename(result.filePath)}`);
+            return;
+        }
         
-        try {
-            // Read file content
-            const raw = await vscode.workspace.fs.readFile(uri);
-            const rawBuffer = Buffer.from(raw);
-            
-            // Check for extremely large files (>50MB) and warn
-            if (rawBuffer.length > 50 * 1024 * 1024) {
-                const sizeMB = (rawBuffer.length / (1024 * 1024)).toFixed(1);
-                log(`Warning: Processing very large file (${sizeMB}MB): ${fileName}`, 'warn');
-                
-                // Ask for confirmation for files over 100MB
-                if (rawBuffer.length > 100 * 1024 * 1024) {
-                    const proceed = await vscode.window.showWarningMessage(
-                        `The file "${fileName}" is very large (${sizeMB}MB). Processing it may consume significant memory. Continue?`,
-                        'Yes', 'No'
-                    );
-                    if (proceed !== 'Yes') {
-                        return {
-                            success: false,
-                            filePath,
-                            skipped: true,
-                            skipReason: 'User cancelled due to large file size'
-                        };
-                    }
-                }
-            }
-            
-            // Detect or use provided encoding
-            let detectedEncoding: string;
-            let confidence: number;
-            let method: string;
-            
-            if (sourceEncoding) {
-                detectedEncoding = sourceEncoding.toLowerCase();
-                confidence = 1.0;
-                method = 'manual';
-            } else {
-                const detection = await detectEncoding(uri);
-                detectedEncoding = detection.encoding;
-                confidence = detection.confidence;
-                method = detection.method;
-            }
-            
-            log(`Detected encoding: ${detectedEncoding} (confidence: ${confidence}, method: ${method})`);
-            
-            // Check if already in target encoding
-            const normalizedDetected = normalizeEncoding(detectedEncoding);
-            const normalizedTarget = normalizeEncoding(targetEncoding);
-            
-            if (normalizedDetected === normalizedTarget) {
-                // Double-check by trying to decode
-                try {
-                    const testText = iconv.decode(rawBuffer, normalizedTarget);
-                    const reencoded = iconv.encode(testText, normalizedTarget);
-                    if (Buffer.compare(rawBuffer, reencoded) === 0) {
-                        return {
-                            success: true,
-                            filePath,
-                            originalEncoding: detectedEncoding,
-                            targetEncoding,
-                            fileSize: fileSize,
-                            skipped: true,
-                            skipReason: 'Already in target encoding'
-                        };
-                    }
-                } catch (error) {
-                    log(`Target encoding verification failed: ${error}`, 'warn');
-                }
-            }
-            
-            // Create backup if enabled
-            let backupCreated = false;
-            if (config.createBackup) {
-                backupCreated = await createBackup(uri);
-            }
-            
-            // Decode from source encoding
-            let text: string;
-            try {
-                text = iconv.decode(rawBuffer, detectedEncoding);
-            } catch (error) {
-                log(`Decode failed with ${detectedEncoding}, trying with error handling: ${error}`, 'warn');
-                try {
-                    text = iconv.decode(rawBuffer, detectedEncoding, { stripBOM: true });
-                } catch (fallbackError) {
-                    throw new Error(`Failed to decode file: ${fallbackError}`);
-                }
-            }
-            
-            // Encode to target encoding
-            let encodedBuffer: Buffer;
-            try {
-                encodedBuffer = iconv.encode(text, targetEncoding);
-            } catch (error) {
-                throw new Error(`Failed to encode to ${targetEncoding}: ${error}`);
-            }
-            
-            // Write converted content
-            await vscode.workspace.fs.writeFile(uri, encodedBuffer);
-            
-            log(`Successfully converted ${fileName} from ${detectedEncoding} to ${targetEncoding}`);
-            
-            return {
-                success: true,
-                filePath,
-                originalEncoding: detectedEncoding,
-                targetEncoding,
-                fileSize: fileSize,
-                backupCreated,
-                detectedOriginalEncoding: detectedEncoding
-            };
-            
-        } catch (error) {
-            const errorMessage = `Conversion failed: ${error}`;
-            log(errorMessage, 'error');
-            
-            return {
-                success: false,
-                filePath,
-                originalEncoding: sourceEncoding,
-                targetEncoding,
-                fileSize: fileSize,
-                error: errorMessage
-            };
+        // Never write a conversion computed from content that has since changed
+        const currentContent = Buffer.from(await vscode.workspace.fs.readFile(targetUri));
+        if (!prepared.rawBuffer || Buffer.compare(currentContent, prepared.rawBuffer) !== 0) {
+            vscode.window.showWarningMessage(
+                `File changed since the preview was created, nothing was written: ${path.basename(result.filePath)}`
+            );
+            return;
         }
+        
+        const written = await writePreparedConversion(targetUri, prepared);
+        await showSingleConversionResult(
+            targetUri,
+            written,
+            `File converted from ${written.originalEncoding?.toUpperCase()} to ${targetLabel}: ${path.basename(written.filePath)}`
+        );
     }
 
     /**
-     * Get all files in directory recursively
+     * Preview a batch: convert every file in memory and let the user step through the diffs
+     * Returns the files to convert (unchecked files removed), or undefined if cancelled
      */
-    async function getFilesInDirectory(uri: vscode.Uri): Promise<vscode.Uri[]> {
-        const files: vscode.Uri[] = [];
-        const config = getConfig();
-        
-        try {
-            const entries = await vscode.workspace.fs.readDirectory(uri);
-            
-            for (const [name, type] of entries) {
-                const childUri = vscode.Uri.joinPath(uri, name);
-                
-                if (type === vscode.FileType.File) {
-                    const processCheck = shouldProcessFile(childUri, config);
-                    if (processCheck.shouldProcess) {
-                        files.push(childUri);
-                    }
-                } else if (type === vscode.FileType.Directory) {
-                    // Recursively get files from subdirectory
-                    const subFiles = await getFilesInDirectory(childUri);
-                    files.push(...subFiles);
+    async function previewBatchConversion(
+        files: vscode.Uri[],
+        sourceEncoding: string | undefined,
+        targetEncoding: string | undefined,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy
+    ): Promise<vscode.Uri[] | undefined> {
+        const prepared = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Preparing conversion preview...',
+            cancellable: true
+        }, async (progress, token) => {
+            const previews: { uri: vscode.Uri; prepared: PreparedConversion }[] = [];
+            for (const file of files) {
+                if (token.isCancellationRequested) {
+                    return undefined;
                 }
+                const target = targetEncoding ?? await expectedEncodingFor(file);
+                previews.push({ uri: file, prepared: await prepareConversion(file, sourceEncoding, target, unmappablePolicy, eolPolicy) });
+                progress.report({
+                    message: `${path.basename(file.fsPath)} (${previews.length}/${files.length})`,
+                    increment: (1 / files.length) * 100
+                });
             }
-        } catch (error) {
-            log(`Error reading directory ${uri.fsPath}: ${error}`, 'error');
+            return previews;
+        });
+        
+        if (!prepared) {
+            return undefined;
+        }
+        
+        // Files that would be skipped or rejected are reported by the real run, only changes are listed
+        const changed = prepared.filter(p => p.prepared.encodedBuffer);
+        if (changed.length === 0) {
+            vscode.window.showInformationMessage('No files would be changed by this conversion');
+            return files;
+        }
+        
+        const items = changed.map(p => ({
+            label: path.basename(p.uri.fsPath),
+            description: `${p.prepared.result.originalEncoding?.toUpperCase()} -> ${p.prepared.result.targetEncoding?.toUpperCase()}`,
+            detail: vscode.workspace.asRelativePath(p.uri),
+            uri: p.uri,
+            prepared: p.prepared
+        }));
+        
+        const quickPick = vscode.window.createQuickPick<typeof items[number]>();
+        quickPick.title = `Preview: ${changed.length} of ${files.length} files would change`;
+        quickPick.placeholder = 'Move through the list to view each diff, uncheck files you do not want converted';
+        quickPick.canSelectMany = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items;
+        
+        const selected = await new Promise<typeof items | undefined>(resolve => {
+            let accepted = false;
+            quickPick.onDidChangeActive(active => {
+                if (active.length > 0) {
+                    showConversionDiff(active[0].uri, active[0].prepared, true);
+                }
+            });
+            quickPick.onDidAccept(() => {
+                accepted = true;
+                resolve([...quickPick.selectedItems]);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                if (!accepted) {
+                    resolve(undefined);
+                }
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+        
+        await closeConversionDiffs();
+        
+        if (!selected) {
+            return undefined;
         }
         
-        return files;
+        const excluded = new Set(items.filter(item => !selected.includes(item)).map(item => item.uri.toString()));
+        if (excluded.size > 0) {
+            log(`Preview: ${excluded.size} file(s) unchecked and excluded from conversion`);
+        }
+        return files.filter(f => !excluded.has(f.toString()));
     }
 
     /**
      * Show pre-conversion confirmation dialog
+     * Returns the files to convert, or undefined if cancelled
      */
-    async function showPreConversionDialog(files: vscode.Uri[], operation: string): Promise<boolean> {
+    async function showPreConversionDialog(
+        files: vscode.Uri[],
+        operation: string,
+        sourceEncoding: string | undefined,
+        targetEncoding: string | undefined,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        excluded?: FileCollection['excluded']
+    ): Promise<vscode.Uri[] | undefined> {
         const config = getConfig();
         const maxDisplay = 10;
         
         const fileList = files.slice(0, maxDisplay).map(f => path.basename(f.fsPath)).join('\n');
         const moreFiles = files.length > maxDisplay ? `\n... and ${files.length - maxDisplay} more files` : '';
+        const exclusions = formatExclusions(excluded ?? {});
+        const exclusionText = exclusions.length > 0 ? `\n\nExcluded:\n${exclusions.map(line => `- ${line}`).join('\n')}` : '';
         
-        const message = `${operation}\n\nFiles to process (${files.length}):\n${fileList}${moreFiles}\n\nSettings:\n- Create backup: ${config.createBackup ? 'Yes' : 'No'}\n- Concurrent files: ${config.batchConcurrency}\n- Auto-reopen files: ${config.autoReopenFiles ? 'Yes' : 'No'} (single file conversion only)`;
+        const message = `${operation}\n\nFiles to process (${files.length}):\n${fileList}${moreFiles}\n\nSettings:\n- Create backup: ${config.createBackup ? 'Yes' : 'No'}\n- Concurrent files: ${config.batchConcurrency}\n- All or nothing: ${config.transactionalBatch ? 'Yes' : 'No'}\n- Line endings: ${eolLabels[eolPolicy ?? config.eolPolicy]}\n- Auto-reopen files: ${config.autoReopenFiles ? 'Yes' : 'No'} (single file conversion only)${exclusionText}`;
         
         const result = await vscode.window.showInformationMessage(
             message,
             { modal: true },
             'Continue',
+            'Preview Changes',
             'Cancel'
         );
         
-        return result === 'Continue';
-    }
-
-    /**
-     * Find the most recent backup file
-     */
-    async function findLatestBackup(filePath: string): Promise<string | null> {
-        const candidates = [
-            filePath + '.bak',
-            filePath + '.bak.1',
-            filePath + '.bak.2',
-            filePath + '.bak.3',
-            filePath + '.bak.4',
-            filePath + '.bak.5'
-        ];
-        
-        // Find the most recent backup by checking modification time
-        let latestBackup: string | null = null;
-        let latestTime = 0;
-        
-        for (const candidate of candidates) {
-            try {
-                const stat = await vscode.workspace.fs.stat(vscode.Uri.file(candidate));
-                if (stat.mtime > latestTime) {
-                    latestTime = stat.mtime;
-                    latestBackup = candidate;
-                }
-            } catch (error) {
-                // File doesn't exist, continue
-            }
-        }
-        
-        return latestBackup;
-    }
-
-    /**
-     * Undo conversion by restoring from backup
-     */
-    async function undoConversion(filePath: string, originalEncoding?: string, reopenFile: boolean = false): Promise<boolean> {
-        try {
-            const backupPath = await findLatestBackup(filePath);
-            if (!backupPath) {
-                vscode.window.showErrorMessage(`No backup file found for: ${path.basename(filePath)}`);
-                return false;
-            }
-            
-            const backupUri = vscode.Uri.file(backupPath);
-            const originalUri = vscode.Uri.file(filePath);
-            
-            // Restore from backup
-            const backupContent = await vscode.workspace.fs.readFile(backupUri);
-            await vscode.workspace.fs.writeFile(originalUri, backupContent);
-            
-            // Delete backup file
-            await vscode.workspace.fs.delete(backupUri);
-            
-            // Reopen file if requested
-            if (reopenFile) {
-                await reopenFileWithNewEncoding(originalUri);
-            }
-            
-            log(`Undone conversion: ${path.basename(filePath)} (restored from ${path.basename(backupPath)})`);
-            return true;
-        } catch (error) {
-            log(`Failed to undo conversion: ${error}`, 'error');
-            vscode.window.showErrorMessage(`Failed to undo conversion: ${error}`);
-            return false;
+        if (result === 'Preview Changes') {
+            return previewBatchConversion(files, sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy);
         }
+        return result === 'Continue' ? files : undefined;
     }
 
     /**
-     * Undo batch conversion
+     * Report a single file conversion
+     * Reopens the file first (if enabled), then shows the message with an Undo option
      */
-    async function undoBatchConversion(results: ConversionResult[]): Promise<void> {
-        const convertedFiles = results.filter(r => r.success && !r.skipped && r.backupCreated);
-        
-        if (convertedFiles.length === 0) {
-            vscode.window.showInformationMessage('No files to undo (no backups found)');
-            return;
-        }
-        
-        const confirmed = await vscode.window.showWarningMessage(
-            `Are you sure you want to undo conversion for ${convertedFiles.length} files?`,
-            { modal: true },
-            'Yes, Undo All',
-            'Cancel'
-        );
-        
-        if (confirmed !== 'Yes, Undo All') {
-            return;
-        }
-        
-        vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: 'Undoing conversions...',
-            cancellable: false
-        }, async (progress) => {
-            let undone = 0;
-            let failed = 0;
-            
-            for (const result of convertedFiles) {
-                const success = await undoConversion(result.filePath, result.detectedOriginalEncoding);
-                if (success) {
-                    undone++;
-                } else {
-                    failed++;
+    async function showSingleConversionResult(targetUri: vscode.Uri, result: ConversionResult, successMessage: string): Promise<void> {
+        if (result.success) {
+            if (result.skipped) {
+                vscode.window.showInformationMessage(
+                    `File ${result.skipReason?.toLowerCase()}: ${path.basename(result.filePath)}`
+                );
+            } else {
+                // First, reopen file with new encoding if enabled
+                const config = getConfig();
+                if (config.autoReopenFiles) {
+                    await reopenFileWithNewEncoding(targetUri);
                 }
                 
-                progress.report({
-                    message: `Undoing ${path.basename(result.filePath)} (${undone + failed}/${convertedFiles.length})`,
-                    increment: (1 / convertedFiles.length) * 100
-                });
+                // Then show success message with undo option
+                const unmappableNote = result.unmappableCount
+                    ? ` (${result.unmappableCount} unmappable character(s), policy: ${result.unmappablePolicy})`
+                    : '';
+                const eolNote = result.linesChanged
+                    ? ` (${result.linesChanged} line ending(s) changed, ${eolLabels[result.eolPolicy ?? 'keep']})`
+                    : '';
+                const message = successMessage + unmappableNote + eolNote;
+                
+                const operation = result.bomChange && result.originalEncoding === result.targetEncoding
+                    ? `${result.bomChange === 'added' ? 'Add' : 'Remove'} byte order mark`
+                    : `Convert to ${result.targetEncoding?.toUpperCase()}`;
+                const journalEntry = journal.record(operation, [result]);
+                if (journalEntry) {
+                    vscode.window.showInformationMessage(message, 'Undo').then(selection => {
+                        if (selection === 'Undo') {
+                            journal.undo(journalEntry.id);
+                        }
+                    });
+                } else {
+                    vscode.window.showInformationMessage(message);
+                }
             }
-            
-            const summary = `Undo completed. Restored: ${undone}, Failed: ${failed}`;
-            if (failed > 0) {
-                vscode.window.showWarningMessage(summary);
+        } else {
+            if (result.skipped) {
+                vscode.window.showWarningMessage(
+                    `File skipped (${result.skipReason}): ${path.basename(result.filePath)}`
+                );
             } else {
-                vscode.window.showInformationMessage(summary);
+                vscode.window.showErrorMessage(
+                    `Conversion failed: ${result.error}`
+                );
             }
-        });
+        }
     }
 
     /**
@@ -663,20 +722,34 @@ export function activate(context: vscode.ExtensionContext) {
      */
     function showConversionResults(result: BatchConversionResult, operation: string) {
         const config = getConfig();
+        const journalEntry = journal.record(operation, result.results);
+        const undoBatchConversion = () => {
+            if (journalEntry) {
+                journal.undo(journalEntry.id);
+            } else {
+                vscode.window.showInformationMessage('No files to undo (no backups found)');
+            }
+        };
+        const rolledBack = result.transaction === 'rolled-back';
         
         if (!config.showDetailedResults) {
             // Simple summary
-            const summary = `${operation} completed. Processed: ${result.processed}, Converted: ${result.converted}, Skipped: ${result.skipped}, Errors: ${result.errors}`;
-            if (result.errors > 0) {
+            const transactionNote = result.transaction === 'committed'
+                ? ' All changes committed.'
+                : rolledBack ? ` Rolled back, no file was changed (${result.rollbackReason}).` : '';
+            const summary = `${operation} completed. Processed: ${result.processed}, Converted: ${result.converted}, Skipped: ${result.skipped}, Lossy (not written): ${result.lossy}, Errors: ${result.errors}.${transactionNote}`;
+            if (rolledBack) {
+                vscode.window.showWarningMessage(summary);
+            } else if (result.errors > 0 || result.lossy > 0) {
                 vscode.window.showWarningMessage(summary, 'Undo', 'OK').then(selection => {
                     if (selection === 'Undo') {
-                        undoBatchConversion(result.results);
+                        undoBatchConversion();
                     }
                 });
             } else {
                 vscode.window.showInformationMessage(summary, 'Undo', 'OK').then(selection => {
                     if (selection === 'Undo') {
-                        undoBatchConversion(result.results);
+                        undoBatchConversion();
                     }
                 });
             }
@@ -686,20 +759,41 @@ export function activate(context: vscode.ExtensionContext) {
         // Detailed results
         const successful = result.results.filter(r => r.success && !r.skipped);
         const skipped = result.results.filter(r => r.skipped);
-        const failed = result.results.filter(r => !r.success && !r.skipped);
+        const lossy = result.results.filter(r => r.lossy);
+        const unmappableTotal = successful.reduce((sum, r) => sum + (r.unmappableCount || 0), 0);
+        const policies = [...new Set(successful.map(r => r.unmappablePolicy).filter(p => p))];
+        const failed = result.results.filter(r => !r.success && !r.skipped && !r.lossy && !r.rolledBack);
+        const reverted = result.results.filter(r => r.rolledBack);
         
         let message = `${operation} Results:\n\n`;
+        if (result.transaction === 'committed') {
+            message += `Transaction: committed, all changes were written\n\n`;
+        } else if (rolledBack) {
+            message += `Transaction: rolled back, no file was changed\nReason: ${result.rollbackReason}\n\n`;
+        }
         message += `Summary:\n`;
         message += `- Total files: ${result.totalFiles}\n`;
         message += `- Processed: ${result.processed}\n`;
         message += `- Converted: ${result.converted}\n`;
         message += `- Skipped: ${result.skipped}\n`;
-        message += `- Errors: ${result.errors}\n\n`;
+        message += `- Lossy, not written: ${result.lossy}\n`;
+        message += `- Errors: ${result.errors}\n`;
+        if (policies.length > 0) {
+            message += `- Unmappable characters handled: ${unmappableTotal} (policy: ${policies.join(', ')})\n`;
+        }
+        const linesChangedTotal = successful.reduce((sum, r) => sum + (r.linesChanged || 0), 0);
+        if (linesChangedTotal > 0) {
+            message += `- Line endings changed: ${linesChangedTotal} in ${successful.filter(r => r.linesChanged).length} file(s)\n`;
+        }
+        message += '\n';
         
         if (successful.length > 0) {
             message += `Successfully converted (${successful.length}):\n`;
             successful.slice(0, 5).forEach(r => {
-                message += `- ${path.basename(r.filePath)}: ${r.originalEncoding} -> ${r.targetEncoding}\n`;
+                const unmappableNote = r.unmappableCount ? ` (${r.unmappableCount} unmappable, ${r.unmappablePolicy})` : '';
+                const runnerUp = r.runnersUp?.[0];
+                const runnerUpNote = runnerUp ? `, runner-up ${runnerUp.encoding} ${(runnerUp.score * 100).toFixed(0)}%` : '';
+                message += `- ${path.basename(r.filePath)}: ${r.originalEncoding} -> ${r.targetEncoding}${unmappableNote}${runnerUpNote}\n`;
             });
             if (successful.length > 5) {
                 message += `... and ${successful.length - 5} more\n`;
@@ -718,6 +812,17 @@ export function activate(context: vscode.ExtensionContext) {
             message += '\n';
         }
         
+        if (lossy.length > 0) {
+            message += `Lossy, not written (${lossy.length}):\n`;
+            lossy.slice(0, 5).forEach(r => {
+                message += `- ${path.basename(r.filePath)}: ${r.error}\n`;
+            });
+            if (lossy.length > 5) {
+                message += `... and ${lossy.length - 5} more\n`;
+            }
+            message += '\n';
+        }
+        
         if (failed.length > 0) {
             message += `Failed files (${failed.length}):\n`;
             failed.slice(0, 5).forEach(r => {
@@ -726,19 +831,32 @@ export function activate(context: vscode.ExtensionContext) {
             if (failed.length > 5) {
                 message += `... and ${failed.length - 5} more\n`;
             }
+            message += '\n';
+        }
+        
+        if (reverted.length > 0) {
+            message += `Converted but rolled back (${reverted.length}):\n`;
+            reverted.slice(0, 5).forEach(r => {
+                message += `- ${path.basename(r.filePath)}: ${r.originalEncoding} -> ${r.targetEncoding}\n`;
+            });
+            if (reverted.length > 5) {
+                message += `... and ${reverted.length - 5} more\n`;
+            }
         }
         
-        // Show results in modal dialog with undo option
-        if (result.errors > 0) {
+        // Show results in modal dialog with undo option, a rolled back batch has nothing to undo
+        if (rolledBack) {
+            vscode.window.showWarningMessage(message, { modal: true }, 'OK');
+        } else if (result.errors > 0 || result.lossy > 0) {
             vscode.window.showWarningMessage(message, { modal: true }, 'Undo', 'OK').then(selection => {
                 if (selection === 'Undo') {
-                    undoBatchConversion(result.results);
+                    undoBatchConversion();
                 }
             });
         } else {
             vscode.window.showInformationMessage(message, { modal: true }, 'Undo', 'OK').then(selection => {
                 if (selection === 'Undo') {
-                    undoBatchConversion(result.results);
+                    undoBatchConversion();
                 }
             });
         }
@@ -746,29 +864,63 @@ export function activate(context: vscode.ExtensionContext) {
 
     /**
      * Process multiple files with concurrency control
+     * Without a target encoding each file is converted to its expected encoding
      */
     async function processMultipleFiles(
         files: vscode.Uri[],
         sourceEncoding: string | undefined,
-        targetEncoding: string,
-        operation: string
+        targetEncoding: string | undefined,
+        operation: string,
+        unmappablePolicy?: UnmappablePolicy,
+        eolPolicy?: EolPolicy,
+        excluded?: FileCollection['excluded']
     ): Promise<BatchConversionResult> {
         const config = getConfig();
-        const totalFiles = files.length;
         
-        // Show confirmation dialog
-        const confirmed = await showPreConversionDialog(files, operation);
-        if (!confirmed) {
+        // Show confirmation dialog, the preview may uncheck some files
+        const selectedFiles = await showPreConversionDialog(files, operation, sourceEncoding, targetEncoding, unmappablePolicy, eolPolicy, excluded);
+        if (!selectedFiles) {
             return {
                 totalFiles: 0,
                 processed: 0,
                 converted: 0,
                 skipped: 0,
                 errors: 0,
+                lossy: 0,
                 results: []
             };
         }
         
+        const totalFiles = selectedFiles.length;
+        
+        // All-or-nothing mode: the engine stages every output and commits or rolls back as a whole
+        if (config.transactionalBatch) {
+            let streamed: { filePath: string; report: (bytesProcessed: number, totalBytes: number) => void } | undefined;
+            return vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `${operation} (all or nothing)`,
+                cancellable: true
+            }, (progress, token) => engine.convertFilesTransactionally(
+                selectedFiles.map(file => file.fsPath),
+                sourceEncoding,
+                targetEncoding,
+                unmappablePolicy,
+                eolPolicy,
+                (filePath, processed) => progress.report({
+                    message: `Staging ${path.basename(filePath)} (${processed}/${totalFiles})`,
+                    increment: (1 / totalFiles) * 100
+                }),
+                () => token.isCancellationRequested,
+                (filePath, bytesProcessed, totalBytes) => {
+                    // Files are staged one after another, a new file gets a new reporter
+                    if (streamed?.filePath !== filePath) {
+                        streamed = { filePath, report: byteProgress(progress, `Staging ${path.basename(filePath)}`, false) };
+                    }
+                    streamed.report(bytesProcessed, totalBytes);
+                }
+            ));
+        }
+        
         return vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: operation,
@@ -780,6 +932,7 @@ export function activate(context: vscode.ExtensionContext) {
             let converted = 0;
             let skipped = 0;
             let errors = 0;
+            let lossy = 0;
             
             // Process files in batches
             for (let i = 0; i < totalFiles; i += batchSize) {
@@ -788,8 +941,16 @@ export function activate(context: vscode.ExtensionContext) {
                     break;
                 }
                 
-                const batch = files.slice(i, i + batchSize);
-                const batchPromises = batch.map(file => convertFile(file, sourceEncoding, targetEncoding));
+                const batch = selectedFiles.slice(i, i + batchSize);
+                const batchPromises = batch.map(async file => convertFile(
+                    file,
+                    sourceEncoding,
+                    targetEncoding ?? await expectedEncodingFor(file),
+                    unmappablePolicy,
+                    eolPolicy,
+                    byteProgress(progress, path.basename(file.fsPath), false),
+                    () => token.isCancellationRequested
+                ));
                 
                 const batchResults = await Promise.all(batchPromises);
                 results.push(...batchResults);
@@ -806,6 +967,8 @@ export function activate(context: vscode.ExtensionContext) {
                     } else {
                         if (result.skipped) {
                             skipped++;
+                        } else if (result.lossy) {
+                            lossy++;
                         } else {
                             errors++;
                         }
@@ -827,11 +990,41 @@ export function activate(context: vscode.ExtensionContext) {
                 converted,
                 skipped,
                 errors,
+                lossy,
                 results
             };
         });
     }
 
+    // Batch target that converts each file to its own declared charset
+    const editorConfigTargetLabel = 'As declared in .editorconfig';
+
+    /**
+     * Move the encodings picked for a conversion to the top of the recently used list
+     */
+    async function rememberEncodings(...encodings: (string | undefined)[]): Promise<void> {
+        for (const encoding of encodings.reverse()) {
+            if (encoding) {
+                await encodingChoices.remember(encoding);
+            }
+        }
+    }
+
+    /**
+     * Target encodings offered for a file, the charset its .editorconfig declares comes first
+     */
+    async function targetEncodingOptions(uri: vscode.Uri): Promise<EncodingItem[]> {
+        const declared = await engine.editorConfigCharset(toEnginePath(uri));
+        const items = encodingChoices.items();
+        if (!declared) {
+            return items;
+        }
+        const declaredItem = { label: encodingChoices.labelFor(declared), description: 'Declared in .editorconfig', encoding: encodingChoices.keyFor(declared) };
+        const rest = items.filter(item => item.encoding !== declaredItem.encoding);
+        // A group whose only entry moved to the top loses its heading too
+        return [declaredItem, ...rest.filter((item, i) => item.kind !== vscode.QuickPickItemKind.Separator || (rest[i + 1] && rest[i + 1].kind !== vscode.QuickPickItemKind.Separator))];
+    }
+
     // Register Convert to UTF-8 command (auto-detect)
     const convertToUTF8 = vscode.commands.registerCommand(
         'extension.convertToUTF8',
@@ -854,48 +1047,7 @@ export function activate(context: vscode.ExtensionContext) {
                 
                 const result = await convertFile(targetUri, undefined, 'utf8');
                 
-                if (result.success) {
-                    if (result.skipped) {
-                        vscode.window.showInformationMessage(
-                            `File ${result.skipReason?.toLowerCase()}: ${path.basename(result.filePath)}`
-                        );
-                    } else {
-                        // First, reopen file with new encoding if enabled
-                        const config = getConfig();
-                        if (config.autoReopenFiles) {
-                            await reopenFileWithNewEncoding(targetUri);
-                        }
-                        
-                        // Then show success message with undo option
-                        const message = `File converted to UTF-8: ${path.basename(result.filePath)}`;
-                        
-                        if (result.backupCreated) {
-                            vscode.window.showInformationMessage(message, 'Undo').then(selection => {
-                                if (selection === 'Undo') {
-                                    undoConversion(result.filePath, result.detectedOriginalEncoding, config.autoReopenFiles).then(success => {
-                                        if (success) {
-                                            vscode.window.showInformationMessage(
-                                                `Conversion undone: ${path.basename(result.filePath)}`
-                                            );
-                                        }
-                                    });
-                                }
-                            });
-                        } else {
-                            vscode.window.showInformationMessage(message);
-                        }
-                    }
-                } else {
-                    if (result.skipped) {
-                        vscode.window.showWarningMessage(
-                            `File skipped (${result.skipReason}): ${path.basename(result.filePath)}`
-                        );
-                    } else {
-                        vscode.window.showErrorMessage(
-                            `Conversion failed: ${result.error}`
-                        );
-                    }
-                }
+                await showSingleConversionResult(targetUri, result, `File converted to UTF-8: ${path.basename(result.filePath)}`);
             } catch (error) {
                 log(`Command failed: ${error}`, 'error');
                 vscode.window.showErrorMessage(`Conversion failed: ${error}`);
@@ -923,30 +1075,21 @@ export function activate(context: vscode.ExtensionContext) {
                     targetUri = editor.document.uri;
                 }
                 
-                const encodingOptions = [
-                    { label: 'UTF-8', description: 'Unicode UTF-8' },
-                    { label: 'Big5', description: 'Traditional Chinese' },
-                    { label: 'GBK', description: 'Simplified Chinese' },
-                    { label: 'GB2312', description: 'Simplified Chinese (older)' },
-                    { label: 'Shift_JIS', description: 'Japanese' },
-                    { label: 'EUC-KR', description: 'Korean' },
-                    { label: 'ISO-8859-1', description: 'Western European' },
-                    { label: 'Windows-1252', description: 'Windows Western European' },
-                    { label: 'UTF-16', description: 'Unicode UTF-16' },
-                    { label: 'UTF-16BE', description: 'Unicode UTF-16 Big Endian' },
-                    { label: 'UTF-16LE', description: 'Unicode UTF-16 Little Endian' }
-                ];
-                
                 // Auto-detect current encoding for preview
                 const detection = await detectEncoding(targetUri);
                 const detectedText = `Auto-detected: ${detection.encoding.toUpperCase()} (${(detection.confidence * 100).toFixed(1)}% confidence)`;
+                const compareItem: EncodingItem = { label: 'Compare candidates...', description: 'Preview the text decoded with each plausible encoding' };
                 
-                // Select source encoding
-                const sourceEncoding = await vscode.window.showQuickPick([
+                // Select source encoding, an uncertain guess puts the comparison first
+                const uncertain = detection.confidence < 0.7;
+                const sourceEncoding = await vscode.window.showQuickPick<EncodingItem>([
+                    ...(uncertain ? [compareItem] : []),
                     { label: 'Auto-detect', description: detectedText },
-                    ...encodingOptions
+                    ...(uncertain ? [] : [compareItem]),
+                    ...encodingChoices.items()
                 ], {
                     placeHolder: 'Select the source encoding of the file',
+                    matchOnDescription: true,
                     ignoreFocusOut: true
                 });
                 
@@ -954,67 +1097,202 @@ export function activate(context: vscode.ExtensionContext) {
                     return;
                 }
                 
+                let sourceEncodingValue = sourceEncoding.encoding;
+                if (sourceEncoding === compareItem) {
+                    sourceEncodingValue = await encodingPicker.pick(targetUri);
+                    if (!sourceEncodingValue) {
+                        return;
+                    }
+                }
+                
                 // Select target encoding
-                const targetEncoding = await vscode.window.showQuickPick(encodingOptions, {
+                const targetEncoding = await vscode.window.showQuickPick(await targetEncodingOptions(targetUri), {
                     placeHolder: 'Select the target encoding for the file',
+                    matchOnDescription: true,
                     ignoreFocusOut: true
                 });
                 
-                if (!targetEncoding) {
+                if (!targetEncoding?.encoding) {
                     return;
                 }
                 
-                const sourceEncodingValue = sourceEncoding.label === 'Auto-detect' ? undefined : sourceEncoding.label;
-                
-                if (sourceEncodingValue === targetEncoding.label) {
+                if (sourceEncodingValue === targetEncoding.encoding) {
                     vscode.window.showWarningMessage('Source and target encodings are the same');
                     return;
                 }
                 
-                const result = await convertFile(targetUri, sourceEncodingValue, targetEncoding.label.toLowerCase());
+                const unmappablePolicy = await pickUnmappablePolicy(targetEncoding.encoding);
+                if (!unmappablePolicy) {
+                    return;
+                }
+                
+                const eolPolicy = await pickEolPolicy();
+                if (!eolPolicy) {
+                    return;
+                }
                 
+                const result = await convertFile(targetUri, sourceEncodingValue, targetEncoding.encoding, unmappablePolicy, eolPolicy);
                 if (result.success) {
-                    if (result.skipped) {
-                        vscode.window.showInformationMessage(
-                            `File ${result.skipReason?.toLowerCase()}: ${path.basename(result.filePath)}`
-                        );
-                    } else {
-                        // First, reopen file with new encoding if enabled
-                        const config = getConfig();
-                        if (config.autoReopenFiles) {
-                            await reopenFileWithNewEncoding(targetUri);
-                        }
-                        
-                        // Then show success message with undo option
-                        const message = `File converted from ${result.originalEncoding?.toUpperCase()} to ${targetEncoding.label}: ${path.basename(result.filePath)}`;
-                        
-                        if (result.backupCreated) {
-                            vscode.window.showInformationMessage(message, 'Undo').then(selection => {
-                                if (selection === 'Undo') {
-                                    undoConversion(result.filePath, result.detectedOriginalEncoding, config.autoReopenFiles).then(success => {
-                                        if (success) {
-                                            vscode.window.showInformationMessage(
-                                                `Conversion undone: ${path.basename(result.filePath)}`
-                                            );
-                                        }
-                                    });
-                                }
-                            });
-                        } else {
-                            vscode.window.showInformationMessage(message);
-                        }
+                    await rememberEncodings(sourceEncodingValue, targetEncoding.encoding);
+                }
+                
+                await showSingleConversionResult(
+                    targetUri,
+                    result,
+                    `File converted from ${result.originalEncoding?.toUpperCase()} to ${targetEncoding.label}: ${path.basename(result.filePath)}`
+                );
+            } catch (error) {
+                log(`Command failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`Conversion failed: ${error}`);
+            }
+        }
+    );
+
+    // Register Preview Conversion command
+    const previewConversion = vscode.commands.registerCommand(
+        'extension.previewConversion',
+        async (uri?: vscode.Uri) => {
+            log('Preview conversion command triggered');
+            
+            try {
+                let targetUri: vscode.Uri;
+                
+                if (uri) {
+                    targetUri = uri;
+                } else {
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) {
+                        vscode.window.showErrorMessage('No file is currently open');
+                        return;
                     }
+                    targetUri = editor.document.uri;
+                }
+                
+                // Select source encoding
+                const sourceEncoding = await vscode.window.showQuickPick<EncodingItem>([
+                    { label: 'Auto-detect', description: 'Automatically detect the encoding' },
+                    ...encodingChoices.items()
+                ], {
+                    placeHolder: 'Select the source encoding of the file',
+                    matchOnDescription: true,
+                    ignoreFocusOut: true
+                });
+                
+                if (!sourceEncoding) {
+                    return;
+                }
+                
+                // Select target encoding
+                const targetEncoding = await vscode.window.showQuickPick(await targetEncodingOptions(targetUri), {
+                    placeHolder: 'Select the target encoding for the file',
+                    matchOnDescription: true,
+                    ignoreFocusOut: true
+                });
+                
+                if (!targetEncoding?.encoding) {
+                    return;
+                }
+                
+                const sourceEncodingValue = sourceEncoding.encoding;
+                
+                const unmappablePolicy = await pickUnmappablePolicy(targetEncoding.encoding);
+                if (!unmappablePolicy) {
+                    return;
+                }
+                
+                const eolPolicy = await pickEolPolicy();
+                if (!eolPolicy) {
+                    return;
+                }
+                
+                const prepared = await prepareConversion(targetUri, sourceEncodingValue, targetEncoding.encoding, unmappablePolicy, eolPolicy);
+                const { result } = prepared;
+                
+                // Nothing to apply: show why, with the diff if there is text to compare
+                if (!prepared.encodedBuffer) {
+                    if (prepared.originalText !== undefined) {
+                        await showConversionDiff(targetUri, prepared);
+                    }
+                    await showSingleConversionResult(targetUri, result, '');
+                    return;
+                }
+                
+                await rememberEncodings(sourceEncodingValue, targetEncoding.encoding);
+                await applyWithPreview(targetUri, prepared);
+            } catch (error) {
+                log(`Command failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`Preview failed: ${error}`);
+            }
+        }
+    );
+
+    // Problems panel entries for files that are not in the expected encoding
+    const diagnostics = registerEncodingDiagnostics(context, engine, getConfig, log);
+
+    // Status bar item showing the detected encoding of the active editor
+    registerEncodingStatusBar(context, engine, log);
+
+    // Check against .editorconfig, and charset entries written after folder conversions
+    const editorConfig = registerEditorConfig(context, engine, getConfig, log, async files => {
+        const result = await processMultipleFiles(files, undefined, undefined, 'Convert to .editorconfig Charset');
+        showConversionResults(result, 'Convert to .editorconfig Charset');
+    });
+
+    // Restore Previous Version... over the backup store
+    registerBackupHistory(context, engine, getConfig, log, reopenFileWithNewEncoding);
+    
+    // Per-line encoding analysis with editor highlights, and the repair of mixed files
+    registerMixedEncoding(context, engine, log, applyWithPreview, showSingleConversionResult);
+    
+    // Undo double encodings such as UTF-8 saved after being opened as Windows-1252
+    registerMojibakeRepair(context, engine, log, applyWithPreview);
+    
+    // Reinterpret or escape only the selected text
+    registerSelectionCommands(context, engine, encodingChoices, getConfig, log);
+    
+    // Offer or run conversions as files are opened and saved, if enabled
+    registerEncodingWatcher(context, engine, getConfig, log);
+    
+    // Convert files dropped into the watched inbox folders
+    registerInboxFolders(
+        context,
+        engine,
+        getConfig,
+        log,
+        (uri, targetEncoding) => convertFile(uri, undefined, targetEncoding),
+        journal,
+        () => outputChannel.show(true)
+    );
+
+    // Register Convert to Expected Encoding command (diagnostics quick fix)
+    const convertToExpectedEncoding = vscode.commands.registerCommand(
+        convertToExpectedEncodingCommand,
+        async (uri?: vscode.Uri) => {
+            log('Convert to expected encoding command triggered');
+            
+            try {
+                let targetUri: vscode.Uri;
+                
+                if (uri) {
+                    targetUri = uri;
                 } else {
-                    if (result.skipped) {
-                        vscode.window.showWarningMessage(
-                            `File skipped (${result.skipReason}): ${path.basename(result.filePath)}`
-                        );
-                    } else {
-                        vscode.window.showErrorMessage(
-                            `Conversion failed: ${result.error}`
-                        );
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) {
+                        vscode.window.showErrorMessage('No file is currently open');
+                        return;
                     }
+                    targetUri = editor.document.uri;
                 }
+                
+                const expectedEncoding = await expectedEncodingFor(targetUri);
+                const result = await convertFile(targetUri, undefined, expectedEncoding);
+                
+                await showSingleConversionResult(
+                    targetUri,
+                    result,
+                    `File converted to ${expectedEncoding.toUpperCase()}: ${path.basename(result.filePath)}`
+                );
+                await diagnostics.checkFile(targetUri);
             } catch (error) {
                 log(`Command failed: ${error}`, 'error');
                 vscode.window.showErrorMessage(`Conversion failed: ${error}`);
@@ -1022,6 +1300,50 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // Register Add/Remove Byte Order Mark command (no re-encoding)
+    const changeByteOrderMark = vscode.commands.registerCommand(
+        'extension.changeByteOrderMark',
+        async (uri?: vscode.Uri) => {
+            log('Change byte order mark command triggered');
+            
+            try {
+                let targetUri: vscode.Uri;
+                
+                if (uri) {
+                    targetUri = uri;
+                } else {
+                    const editor = vscode.window.activeTextEditor;
+                    if (!editor) {
+                        vscode.window.showErrorMessage('No file is currently open');
+                        return;
+                    }
+                    targetUri = editor.document.uri;
+                }
+                
+                const existing = detectBOM(Buffer.from(await vscode.workspace.fs.readFile(targetUri)));
+                const choice = await vscode.window.showQuickPick([
+                    { label: 'Add byte order mark', description: existing ? `already has a ${existing.toUpperCase()} BOM` : undefined, addBOM: true },
+                    { label: 'Remove byte order mark', description: existing ? `${existing.toUpperCase()} BOM` : 'file has no BOM', addBOM: false }
+                ], {
+                    placeHolder: `${path.basename(targetUri.fsPath)}: ${existing ? `starts with a ${existing.toUpperCase()} byte order mark` : 'no byte order mark'}`
+                });
+                if (!choice) {
+                    return;
+                }
+                
+                const result = await engine.setByteOrderMark(toEnginePath(targetUri), choice.addBOM);
+                await showSingleConversionResult(
+                    targetUri,
+                    result,
+                    `Byte order mark ${result.bomChange}: ${path.basename(result.filePath)}`
+                );
+            } catch (error) {
+                log(`Command failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`Changing the byte order mark failed: ${error}`);
+            }
+        }
+    );
+
     // Register Batch Convert to UTF-8 command
     const batchConvertToUTF8 = vscode.commands.registerCommand(
         'extension.batchConvertToUTF8',
@@ -1029,31 +1351,11 @@ export function activate(context: vscode.ExtensionContext) {
             log('Batch convert to UTF-8 command triggered');
             
             try {
-                let filesToProcess: vscode.Uri[] = [];
-                
-                if (uris && uris.length > 0) {
-                    // Multiple files selected
-                    for (const fileUri of uris) {
-                        const stat = await vscode.workspace.fs.stat(fileUri);
-                        if (stat.type === vscode.FileType.File) {
-                            filesToProcess.push(fileUri);
-                        } else if (stat.type === vscode.FileType.Directory) {
-                            const dirFiles = await getFilesInDirectory(fileUri);
-                            filesToProcess.push(...dirFiles);
-                        }
-                    }
-                } else if (uri) {
-                    // Single file or directory
-                    const stat = await vscode.workspace.fs.stat(uri);
-                    if (stat.type === vscode.FileType.File) {
-                        filesToProcess.push(uri);
-                    } else if (stat.type === vscode.FileType.Directory) {
-                        filesToProcess = await getFilesInDirectory(uri);
-                    }
-                }
+                const { files: filesToProcess, folderUri, excluded } = await collectBatchFiles(uri, uris);
                 
                 if (filesToProcess.length === 0) {
-                    vscode.window.showInformationMessage('No files to process');
+                    const excludedTotal = Object.values(excluded).reduce((sum, count) => sum + count.files + count.folders, 0);
+                    vscode.window.showInformationMessage(excludedTotal > 0 ? `No files to process (${excludedTotal} excluded)` : 'No files to process');
                     return;
                 }
                 
@@ -1061,10 +1363,16 @@ export function activate(context: vscode.ExtensionContext) {
                     filesToProcess,
                     undefined,
                     'utf8',
-                    'Batch Convert to UTF-8'
+                    'Batch Convert to UTF-8',
+                    undefined,
+                    undefined,
+                    excluded
                 );
                 
                 showConversionResults(result, 'Batch Convert to UTF-8');
+                if (folderUri) {
+                    await editorConfig.offerCharsetEntry(folderUri, 'utf-8', result);
+                }
                 
             } catch (error) {
                 log(`Batch conversion failed: ${error}`, 'error');
@@ -1080,54 +1388,21 @@ export function activate(context: vscode.ExtensionContext) {
             log('Batch convert between encodings command triggered');
             
             try {
-                let filesToProcess: vscode.Uri[] = [];
-                
-                if (uris && uris.length > 0) {
-                    // Multiple files selected
-                    for (const fileUri of uris) {
-                        const stat = await vscode.workspace.fs.stat(fileUri);
-                        if (stat.type === vscode.FileType.File) {
-                            filesToProcess.push(fileUri);
-                        } else if (stat.type === vscode.FileType.Directory) {
-                            const dirFiles = await getFilesInDirectory(fileUri);
-                            filesToProcess.push(...dirFiles);
-                        }
-                    }
-                } else if (uri) {
-                    // Single file or directory
-                    const stat = await vscode.workspace.fs.stat(uri);
-                    if (stat.type === vscode.FileType.File) {
-                        filesToProcess.push(uri);
-                    } else if (stat.type === vscode.FileType.Directory) {
-                        filesToProcess = await getFilesInDirectory(uri);
-                    }
-                }
+                const { files: filesToProcess, folderUri, excluded } = await collectBatchFiles(uri, uris);
                 
                 if (filesToProcess.length === 0) {
-                    vscode.window.showInformationMessage('No files to process');
+                    const excludedTotal = Object.values(excluded).reduce((sum, count) => sum + count.files + count.folders, 0);
+                    vscode.window.showInformationMessage(excludedTotal > 0 ? `No files to process (${excludedTotal} excluded)` : 'No files to process');
                     return;
                 }
                 
-                const encodingOptions = [
-                    { label: 'UTF-8', description: 'Unicode UTF-8' },
-                    { label: 'Big5', description: 'Traditional Chinese' },
-                    { label: 'GBK', description: 'Simplified Chinese' },
-                    { label: 'GB2312', description: 'Simplified Chinese (older)' },
-                    { label: 'Shift_JIS', description: 'Japanese' },
-                    { label: 'EUC-KR', description: 'Korean' },
-                    { label: 'ISO-8859-1', description: 'Western European' },
-                    { label: 'Windows-1252', description: 'Windows Western European' },
-                    { label: 'UTF-16', description: 'Unicode UTF-16' },
-                    { label: 'UTF-16BE', description: 'Unicode UTF-16 Big Endian' },
-                    { label: 'UTF-16LE', description: 'Unicode UTF-16 Little Endian' }
-                ];
-                
                 // Select source encoding
-                const sourceEncoding = await vscode.window.showQuickPick([
+                const sourceEncoding = await vscode.window.showQuickPick<EncodingItem>([
                     { label: 'Auto-detect', description: 'Automatically detect encoding for each file' },
-                    ...encodingOptions
+                    ...encodingChoices.items()
                 ], {
                     placeHolder: 'Select the source encoding of the files',
+                    matchOnDescription: true,
                     ignoreFocusOut: true
                 });
                 
@@ -1136,8 +1411,14 @@ export function activate(context: vscode.ExtensionContext) {
                 }
                 
                 // Select target encoding
-                const targetEncoding = await vscode.window.showQuickPick(encodingOptions, {
+                const targetEncoding = await vscode.window.showQuickPick<EncodingItem>([
+                    ...(getConfig().useEditorConfig
+                        ? [{ label: editorConfigTargetLabel, description: 'Each file\'s charset, else its expected encoding' }]
+                        : []),
+                    ...encodingChoices.items()
+                ], {
                     placeHolder: 'Select the target encoding for the files',
+                    matchOnDescription: true,
                     ignoreFocusOut: true
                 });
                 
@@ -1145,21 +1426,45 @@ export function activate(context: vscode.ExtensionContext) {
                     return;
                 }
                 
-                const sourceEncodingValue = sourceEncoding.label === 'Auto-detect' ? undefined : sourceEncoding.label;
+                const sourceEncodingValue = sourceEncoding.encoding;
                 
-                if (sourceEncodingValue === targetEncoding.label) {
+                // Auto-detect and the .editorconfig target carry no encoding, they never match
+                if (sourceEncodingValue && sourceEncodingValue === targetEncoding.encoding) {
                     vscode.window.showWarningMessage('Source and target encodings are the same');
                     return;
                 }
                 
+                // No encoding on the entry means each file's .editorconfig charset
+                const targetEncodingValue = targetEncoding.encoding;
+                const unmappablePolicy = targetEncodingValue
+                    ? await pickUnmappablePolicy(targetEncodingValue)
+                    : getConfig().unmappablePolicy;
+                if (!unmappablePolicy) {
+                    return;
+                }
+                
+                const eolPolicy = await pickEolPolicy();
+                if (!eolPolicy) {
+                    return;
+                }
+                
                 const result = await processMultipleFiles(
                     filesToProcess,
                     sourceEncodingValue,
-                    targetEncoding.label.toLowerCase(),
-                    `Batch Convert from ${sourceEncoding.label} to ${targetEncoding.label}`
+                    targetEncodingValue,
+                    `Batch Convert from ${sourceEncoding.label} to ${targetEncoding.label}`,
+                    unmappablePolicy,
+                    eolPolicy,
+                    excluded
                 );
                 
                 showConversionResults(result, `Batch Convert to ${targetEncoding.label}`);
+                if (result.converted > 0) {
+                    await rememberEncodings(sourceEncodingValue, targetEncodingValue);
+                }
+                if (folderUri && targetEncodingValue) {
+                    await editorConfig.offerCharsetEntry(folderUri, targetEncodingValue, result);
+                }
                 
             } catch (error) {
                 log(`Batch conversion failed: ${error}`, 'error');
@@ -1168,12 +1473,109 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // Register Analyze Encodings command (read-only inventory)
+    const analyzeEncodings = vscode.commands.registerCommand(
+        'extension.analyzeEncodings',
+        async (uri?: vscode.Uri) => {
+            log('Analyze encodings command triggered');
+            
+            try {
+                let rootUri = uri;
+                
+                if (!rootUri) {
+                    const folders = vscode.workspace.workspaceFolders || [];
+                    if (folders.length === 0) {
+                        vscode.window.showErrorMessage('Open a folder or workspace to analyze');
+                        return;
+                    }
+                    if (folders.length === 1) {
+                        rootUri = folders[0].uri;
+                    } else {
+                        const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to analyze' });
+                        if (!folder) {
+                            return;
+                        }
+                        rootUri = folder.uri;
+                    }
+                }
+                
+                const files = await getFilesInDirectory(rootUri);
+                if (files.length === 0) {
+                    vscode.window.showInformationMessage('No files to analyze');
+                    return;
+                }
+                
+                const analyses = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Analyzing encodings',
+                    cancellable: true
+                }, async (progress, token) => {
+                    const collected: FileAnalysis[] = [];
+                    for (const file of files) {
+                        if (token.isCancellationRequested) {
+                            log('Analysis cancelled by user', 'warn');
+                            return undefined;
+                        }
+                        collected.push(await engine.analyzeFile(file.fsPath));
+                        progress.report({
+                            message: `${path.basename(file.fsPath)} (${collected.length}/${files.length})`,
+                            increment: (1 / files.length) * 100
+                        });
+                    }
+                    return collected;
+                });
+                
+                if (!analyses) {
+                    return;
+                }
+                
+                const inventory = buildInventory(rootUri.fsPath, analyses);
+                const document = await vscode.workspace.openTextDocument({
+                    language: 'markdown',
+                    content: formatInventoryMarkdown(inventory)
+                });
+                await vscode.window.showTextDocument(document, { preview: false });
+                log(`Analyzed ${analyses.length} files in ${rootUri.fsPath}`);
+                
+                const exportChoice = await vscode.window.showInformationMessage(
+                    `Analyzed ${analyses.length} files, ${inventory.groups.length} encoding(s) found. Nothing was modified.`,
+                    'Export CSV',
+                    'Export JSON'
+                );
+                if (!exportChoice) {
+                    return;
+                }
+                
+                const isCsv = exportChoice === 'Export CSV';
+                const saveUri = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.joinPath(rootUri, isCsv ? 'encoding-inventory.csv' : 'encoding-inventory.json'),
+                    filters: isCsv ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+                });
+                if (!saveUri) {
+                    return;
+                }
+                
+                const content = isCsv ? formatInventoryCsv(inventory) : formatInventoryJson(inventory);
+                await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, 'utf8'));
+                log(`Inventory exported: ${saveUri.fsPath}`);
+                vscode.window.showInformationMessage(`Inventory exported: ${path.basename(saveUri.fsPath)}`);
+            } catch (error) {
+                log(`Analysis failed: ${error}`, 'error');
+                vscode.window.showErrorMessage(`Analysis failed: ${error}`);
+            }
+        }
+    );
+
     // Register all commands
     context.subscriptions.push(
         convertToUTF8,
         convertBetweenEncodings,
+        previewConversion,
+        convertToExpectedEncoding,
+        changeByteOrderMark,
         batchConvertToUTF8,
-        batchConvertBetweenEncodings
+        batchConvertBetweenEncodings,
+        analyzeEncodings
     );
 
     log('All commands registered successfully');
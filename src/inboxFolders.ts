@@ -0,0 +1,257 @@
+/**
+ * Watched inbox folders
+ *
+ * Files created or changed in an inbox folder are converted to the folder's target encoding once
+ * they stop changing. Files that fail, or whose encoding is detected with too little confidence,
+ * are moved to the folder's quarantine instead (or only flagged). Every outcome is logged, and a
+ * summary notification with Undo follows each burst of files.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, ConversionResult, EncodingConverterConfig, InboxFolder, isEncodingCompatible, LogLevel } from './engine';
+import { ConversionJournal } from './conversionJournal';
+
+// A file counts as complete when its size and modification time hold still this long
+const stableDelay = 2000;
+
+// After an Undo the restored files change once more, those changes must not convert them again
+const undoGrace = 10000;
+
+// Quarantine folder of an inbox that does not name one
+const defaultQuarantine = 'quarantine';
+
+type InboxOutcome = 'converted' | 'quarantined' | 'flagged' | 'unchanged';
+
+interface WatchedInbox {
+    inbox: InboxFolder;
+    root: string; // Absolute path of the inbox folder
+    quarantine?: string; // Absolute path, undefined when failures are only flagged
+}
+
+/**
+ * Register the inbox watchers, rebuilt whenever the setting or the workspace folders change
+ */
+export function registerInboxFolders(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void,
+    convert: (uri: vscode.Uri, targetEncoding: string) => Promise<ConversionResult>,
+    journal: ConversionJournal,
+    showLog: () => void
+): void {
+    let watchers: vscode.Disposable[] = [];
+    const waiting = new Map<string, NodeJS.Timeout>();
+    let queue: Promise<void> = Promise.resolve();
+    let queued = 0;
+
+    // Files put back by Undo, with the time the undo finished
+    const undone = new Map<string, number>();
+
+    // Outcomes since the last summary
+    let outcomes: { filePath: string; outcome: InboxOutcome; result?: ConversionResult }[] = [];
+
+    /**
+     * Absolute inbox folders of the setting, relative ones in every workspace folder
+     */
+    function resolveInboxes(): WatchedInbox[] {
+        const workspaceRoots = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+        return getConfig().inboxFolders
+            .filter(inbox => inbox.folder)
+            .flatMap(inbox => (path.isAbsolute(inbox.folder) ? [inbox.folder] : workspaceRoots.map(root => path.join(root, inbox.folder)))
+                .map(root => ({
+                    inbox,
+                    root,
+                    quarantine: inbox.quarantine === '' ? undefined : path.resolve(root, inbox.quarantine ?? defaultQuarantine)
+                })));
+    }
+
+    function isInside(filePath: string, folder: string): boolean {
+        return filePath === folder || filePath.startsWith(folder + path.sep);
+    }
+
+    /**
+     * Wait for a file to stop changing, every new event restarts the wait
+     */
+    function schedule(uri: vscode.Uri, watched: WatchedInbox): void {
+        const filePath = uri.fsPath;
+        // Files already set aside are not picked up again
+        if (watched.quarantine && isInside(filePath, watched.quarantine)) {
+            return;
+        }
+        if (Date.now() - (undone.get(filePath) ?? 0) < undoGrace) {
+            return;
+        }
+        const pending = waiting.get(filePath);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        waiting.set(filePath, setTimeout(() => {
+            waiting.delete(filePath);
+            enqueue(uri, watched);
+        }, stableDelay));
+    }
+
+    /**
+     * Process files one at a time, the summary is shown once nothing is left
+     */
+    function enqueue(uri: vscode.Uri, watched: WatchedInbox): void {
+        queued++;
+        queue = queue
+            .then(() => processFile(uri, watched))
+            .catch(error => log(`Inbox: processing ${uri.fsPath} failed: ${error}`, 'error'))
+            .then(() => {
+                queued--;
+                if (queued === 0 && waiting.size === 0) {
+                    showSummary();
+                }
+            });
+    }
+
+    async function stat(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
+        try {
+            return await vscode.workspace.fs.stat(uri);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    async function processFile(uri: vscode.Uri, watched: WatchedInbox): Promise<void> {
+        const filePath = uri.fsPath;
+        const fileName = path.basename(filePath);
+
+        // Still being written if it changed since the last event, wait again
+        const before = await stat(uri);
+        await new Promise(resolve => setTimeout(resolve, stableDelay / 2));
+        const after = await stat(uri);
+        if (!before || !after || after.type !== vscode.FileType.File) {
+            return;
+        }
+        if (before.size !== after.size || before.mtime !== after.mtime) {
+            schedule(uri, watched);
+            return;
+        }
+        if (after.size === 0 || !engine.shouldProcessFile(filePath, getConfig()).shouldProcess) {
+            return;
+        }
+
+        const target = watched.inbox.target || await engine.expectedEncodingFor(filePath);
+        const detection = await engine.detectEncoding(filePath);
+        const percent = `${(detection.confidence * 100).toFixed(0)}%`;
+        if (detection.method === 'fallback') {
+            await setAside(uri, watched, 'the file could not be read for detection');
+            return;
+        }
+        if (detection.encoding === 'binary') {
+            await setAside(uri, watched, `binary file (${detection.method})`);
+            return;
+        }
+        // A weak guess of the target is no proof the file is in it
+        if (detection.confidence < getConfig().inboxMinConfidence) {
+            await setAside(uri, watched, `detected as ${detection.encoding.toUpperCase()} with only ${percent} confidence`);
+            return;
+        }
+        // Our own conversions change the file too, they are already in the target
+        if (isEncodingCompatible(detection.encoding, target)) {
+            log(`Inbox: ${fileName} is already ${target.toUpperCase()}`);
+            return;
+        }
+
+        const result = await convert(uri, target);
+        if (!result.success) {
+            await setAside(uri, watched, result.error ?? 'conversion failed');
+        } else if (result.skipped) {
+            log(`Inbox: ${fileName} skipped, ${result.skipReason}`);
+            outcomes.push({ filePath, outcome: 'unchanged', result });
+        } else {
+            log(`Inbox: ${fileName} converted from ${result.originalEncoding?.toUpperCase()} (${percent}) to ${target.toUpperCase()}`);
+            outcomes.push({ filePath, outcome: 'converted', result });
+        }
+    }
+
+    /**
+     * Move a file to the quarantine, or only flag it when the inbox has none
+     */
+    async function setAside(uri: vscode.Uri, watched: WatchedInbox, reason: string): Promise<void> {
+        const fileName = path.basename(uri.fsPath);
+        if (!watched.quarantine) {
+            log(`Inbox: ${fileName} flagged, not converted: ${reason}`, 'warn');
+            outcomes.push({ filePath: uri.fsPath, outcome: 'flagged' });
+            return;
+        }
+
+        // Never overwrite an earlier file of the same name
+        const parsed = path.parse(fileName);
+        let destination = vscode.Uri.file(path.join(watched.quarantine, fileName));
+        for (let i = 1; await stat(destination); i++) {
+            destination = vscode.Uri.file(path.join(watched.quarantine, `${parsed.name}.${i}${parsed.ext}`));
+        }
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(watched.quarantine));
+        await vscode.workspace.fs.rename(uri, destination, { overwrite: false });
+        log(`Inbox: ${fileName} quarantined as ${destination.fsPath}: ${reason}`, 'warn');
+        outcomes.push({ filePath: uri.fsPath, outcome: 'quarantined' });
+    }
+
+    function showSummary(): void {
+        const count = (outcome: InboxOutcome) => outcomes.filter(o => o.outcome === outcome).length;
+        const converted = count('converted');
+        const setAsideCount = count('quarantined') + count('flagged');
+        if (converted + setAsideCount === 0) {
+            outcomes = [];
+            return;
+        }
+
+        const parts = [
+            `${converted} converted`,
+            ...(count('quarantined') > 0 ? [`${count('quarantined')} quarantined`] : []),
+            ...(count('flagged') > 0 ? [`${count('flagged')} flagged`] : [])
+        ];
+        const results = outcomes.flatMap(o => (o.result ? [o.result] : []));
+        const journalEntry = journal.record('Inbox conversion', results);
+        const message = `Inbox: ${parts.join(', ')}`;
+        outcomes = [];
+
+        const actions = journalEntry ? ['Undo', 'Show Log'] : ['Show Log'];
+        const shown = setAsideCount > 0
+            ? vscode.window.showWarningMessage(message, ...actions)
+            : vscode.window.showInformationMessage(message, ...actions);
+        shown.then(selection => {
+            if (selection === 'Undo' && journalEntry) {
+                const markUndone = () => results.forEach(result => undone.set(result.filePath, Date.now()));
+                markUndone();
+                journal.undo(journalEntry.id).then(markUndone, error => log(`Inbox: undo failed: ${error}`, 'error'));
+            } else if (selection === 'Show Log') {
+                showLog();
+            }
+        });
+    }
+
+    function rebuild(): void {
+        watchers.forEach(watcher => watcher.dispose());
+        watchers = resolveInboxes().map(watched => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(watched.root, '**/*'), false, false, true);
+            watcher.onDidCreate(uri => schedule(uri, watched));
+            watcher.onDidChange(uri => schedule(uri, watched));
+            log(`Inbox: watching ${watched.root} (target ${watched.inbox.target || 'expected encoding'})`);
+            return watcher;
+        });
+    }
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('encodingConverter.inbox')) {
+                rebuild();
+            }
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(rebuild),
+        {
+            dispose: () => {
+                watchers.forEach(watcher => watcher.dispose());
+                waiting.forEach(timer => clearTimeout(timer));
+            }
+        }
+    );
+
+    rebuild();
+}
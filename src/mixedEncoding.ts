@@ -0,0 +1,141 @@
+/**
+ * Mixed-encoding files
+ *
+ * "Analyze Mixed Encodings" works out the encoding of every line of a file and highlights the
+ * segments in the editor, one colour per encoding. "Repair Mixed Encodings" decodes each segment
+ * with its own encoding and writes the whole file as UTF-8, previewed first, backed up and undoable.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, ConversionResult, EncodingSegment, LogLevel, PreparedConversion } from './engine';
+
+export const analyzeMixedEncodingCommand = 'extension.analyzeMixedEncoding';
+export const repairMixedEncodingCommand = 'extension.repairMixedEncoding';
+
+// Theme colours for the segments, one per encoding in order of appearance
+const segmentColors = ['merge.currentContentBackground', 'merge.incomingContentBackground', 'merge.commonContentBackground'];
+
+/**
+ * Register the analyse and repair commands and the segment highlights
+ */
+export function registerMixedEncoding(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    log: (message: string, level?: LogLevel) => void,
+    applyWithPreview: (uri: vscode.Uri, prepared: PreparedConversion) => Promise<void>,
+    showResult: (uri: vscode.Uri, result: ConversionResult, successMessage: string) => Promise<void>
+): void {
+    const decorationTypes = segmentColors.map(color => vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor(color),
+        overviewRulerColor: new vscode.ThemeColor(color),
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    }));
+
+    // Segments per document URI, kept until the document changes
+    const highlighted = new Map<string, { encodings: string[]; segments: EncodingSegment[] }>();
+
+    /**
+     * Paint the segments of a document into every editor showing it
+     */
+    function decorate(editor: vscode.TextEditor): void {
+        const entry = highlighted.get(editor.document.uri.toString());
+        decorationTypes.forEach((type, i) => {
+            const ranges = (entry?.segments ?? [])
+                .filter(segment => entry!.encodings.indexOf(segment.encoding) % decorationTypes.length === i)
+                .map(segment => ({
+                    range: new vscode.Range(segment.startLine - 1, 0, segment.endLine - 1, 0),
+                    hoverMessage: `Lines ${segment.startLine}-${segment.endLine}: ${segment.encoding.toUpperCase()}`
+                }));
+            editor.setDecorations(type, ranges);
+        });
+    }
+
+    function clear(uri: vscode.Uri): void {
+        if (highlighted.delete(uri.toString())) {
+            vscode.window.visibleTextEditors.filter(e => e.document.uri.toString() === uri.toString()).forEach(decorate);
+        }
+    }
+
+    function resolveUri(uri?: vscode.Uri): vscode.Uri | undefined {
+        const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!targetUri || targetUri.scheme !== 'file') {
+            vscode.window.showErrorMessage('No file selected');
+            return undefined;
+        }
+        return targetUri;
+    }
+
+    const analyze = vscode.commands.registerCommand(analyzeMixedEncodingCommand, async (uri?: vscode.Uri) => {
+        log('Analyze mixed encodings command triggered');
+
+        try {
+            const targetUri = resolveUri(uri);
+            if (!targetUri) {
+                return;
+            }
+            const fileName = path.basename(targetUri.fsPath);
+            const analysis = await engine.analyzeMixedEncoding(targetUri.fsPath);
+            if (!analysis.mixed) {
+                clear(targetUri);
+                vscode.window.showInformationMessage(`${fileName} is not mixed, every line is ${analysis.encodings[0]?.toUpperCase() ?? 'empty'}`);
+                return;
+            }
+
+            highlighted.set(targetUri.toString(), analysis);
+            const editor = await vscode.window.showTextDocument(targetUri, { preview: false });
+            decorate(editor);
+
+            const summary = analysis.encodings.map(encoding => {
+                const lines = analysis.segments
+                    .filter(segment => segment.encoding === encoding)
+                    .map(segment => segment.startLine === segment.endLine ? `${segment.startLine}` : `${segment.startLine}-${segment.endLine}`);
+                return `${encoding.toUpperCase()} (lines ${lines.join(', ')})`;
+            }).join(', ');
+            const choice = await vscode.window.showWarningMessage(`${fileName} mixes encodings: ${summary}`, 'Repair', 'Clear Highlights');
+            if (choice === 'Repair') {
+                await vscode.commands.executeCommand(repairMixedEncodingCommand, targetUri);
+            } else if (choice === 'Clear Highlights') {
+                clear(targetUri);
+            }
+        } catch (error) {
+            log(`Command failed: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Mixed-encoding analysis failed: ${error}`);
+        }
+    });
+
+    const repair = vscode.commands.registerCommand(repairMixedEncodingCommand, async (uri?: vscode.Uri) => {
+        log('Repair mixed encodings command triggered');
+
+        try {
+            const targetUri = resolveUri(uri);
+            if (!targetUri) {
+                return;
+            }
+            const prepared = await engine.prepareMixedRepair(targetUri.fsPath);
+            if (!prepared.encodedBuffer) {
+                await showResult(targetUri, prepared.result, '');
+                return;
+            }
+            await applyWithPreview(targetUri, prepared);
+        } catch (error) {
+            log(`Command failed: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Mixed-encoding repair failed: ${error}`);
+        }
+    });
+
+    context.subscriptions.push(
+        analyze,
+        repair,
+        ...decorationTypes,
+        vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(decorate)),
+        // Any edit or reload can move lines, stale highlights would point at the wrong ones
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.contentChanges.length > 0) {
+                clear(event.document.uri);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => clear(document.uri))
+    );
+}
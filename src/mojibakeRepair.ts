@@ -0,0 +1,81 @@
+/**
+ * Mojibake repair
+ *
+ * "Repair Mojibake" finds the reverse transformations that undo a double encoding, such as UTF-8 that
+ * was opened as Windows-1252 or Big5 and saved again. The best fixes are listed with a repaired line
+ * each; the chosen one is previewed as a diff and written with a backup, so it can be undone.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConversionEngine, LogLevel, PreparedConversion } from './engine';
+
+export const repairMojibakeCommand = 'extension.repairMojibake';
+
+/**
+ * Register the repair command
+ */
+export function registerMojibakeRepair(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    log: (message: string, level?: LogLevel) => void,
+    applyWithPreview: (uri: vscode.Uri, prepared: PreparedConversion) => Promise<void>
+): void {
+    const repairMojibake = vscode.commands.registerCommand(repairMojibakeCommand, async (uri?: vscode.Uri) => {
+        log('Repair mojibake command triggered');
+
+        try {
+            const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+            if (!targetUri || targetUri.scheme !== 'file') {
+                vscode.window.showErrorMessage('No file selected');
+                return;
+            }
+
+            const fileName = path.basename(targetUri.fsPath);
+            const { encoding, repairs } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Looking for double-encoded text...'
+            }, () => engine.suggestMojibakeRepairs(targetUri.fsPath));
+
+            if (repairs.length === 0) {
+                vscode.window.showInformationMessage(`No double encoding found in ${fileName} (${encoding.toUpperCase()})`);
+                return;
+            }
+
+            const choice = await vscode.window.showQuickPick(
+                repairs.map(repair => ({
+                    label: `${repair.original.toUpperCase()} misread as ${repair.misreadAs.toUpperCase()}`,
+                    description: `${(repair.score * 100).toFixed(0)}%, ${repair.linesRepaired} line(s): ${repair.reasons.slice(1).join(', ')}`,
+                    detail: repair.samples[0] && `${repair.samples[0].before} -> ${repair.samples[0].after}`,
+                    repair
+                })),
+                {
+                    placeHolder: `Fixes for ${fileName}, best first. The chosen one is previewed before anything is written`,
+                    matchOnDescription: true,
+                    matchOnDetail: true,
+                    ignoreFocusOut: true
+                }
+            );
+            if (!choice) {
+                return;
+            }
+
+            const prepared = await engine.prepareMojibakeRepair(targetUri.fsPath, choice.repair.misreadAs, choice.repair.original);
+            if (!prepared.encodedBuffer) {
+                const { result } = prepared;
+                if (result.skipped) {
+                    vscode.window.showInformationMessage(`${fileName}: ${result.skipReason}`);
+                } else {
+                    vscode.window.showErrorMessage(result.error ?? `Repair of ${fileName} failed`);
+                }
+                return;
+            }
+            await applyWithPreview(targetUri, prepared);
+        } catch (error) {
+            log(`Command failed: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Mojibake repair failed: ${error}`);
+        }
+    });
+
+    context.subscriptions.push(repairMojibake);
+}
@@ -0,0 +1,168 @@
+/**
+ * Selection commands
+ *
+ * "Reinterpret Selection as Encoding" re-decodes only the selected text, for a block of Big5 or
+ * Shift_JIS that was pasted into a UTF-8 file. Characters that were misread are encoded back with
+ * the encoding they were misread as; bytes UTF-8 could not decode at all are read again from disk.
+ * "Escape Selection for Encoding" replaces the selected characters a target encoding cannot hold
+ * with \uXXXX or HTML/XML escapes. Each command changes all selections in one undoable edit.
+ */
+
+import * as vscode from 'vscode';
+import { ConversionEngine, EncodingConverterConfig, LogLevel, UnmappablePolicy, applyUnmappablePolicy, reinterpretText, splitBomEncoding } from './engine';
+import { EncodingChoices } from './encodingChoices';
+
+export const reinterpretSelectionCommand = 'extension.reinterpretSelection';
+export const escapeSelectionCommand = 'extension.escapeSelection';
+
+/**
+ * Register the reinterpret and escape commands
+ */
+export function registerSelectionCommands(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    encodingChoices: EncodingChoices,
+    getConfig: () => EncodingConverterConfig,
+    log: (message: string, level?: LogLevel) => void
+): void {
+    /**
+     * The active editor's non-empty selections, in document order
+     */
+    function selectedRanges(): { editor: vscode.TextEditor; selections: vscode.Selection[] } | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const selections = editor?.selections
+            .filter(selection => !selection.isEmpty)
+            .sort((a, b) => a.start.compareTo(b.start));
+        if (!editor || !selections || selections.length === 0) {
+            vscode.window.showErrorMessage('Select the text first');
+            return undefined;
+        }
+        return { editor, selections };
+    }
+
+    async function pickEncoding(placeHolder: string): Promise<string | undefined> {
+        const choice = await vscode.window.showQuickPick(encodingChoices.items(), {
+            placeHolder,
+            matchOnDescription: true
+        });
+        return choice?.encoding && splitBomEncoding(choice.encoding).encoding;
+    }
+
+    /**
+     * Replace every selection in one edit, so a single undo restores them all
+     */
+    async function replaceAll(editor: vscode.TextEditor, replacements: { range: vscode.Range; text: string }[]): Promise<boolean> {
+        const applied = await editor.edit(builder => {
+            for (const { range, text } of replacements) {
+                builder.replace(range, text);
+            }
+        });
+        if (!applied) {
+            vscode.window.showErrorMessage('The editor rejected the edit, the document may have changed');
+        }
+        return applied;
+    }
+
+    const reinterpret = vscode.commands.registerCommand(reinterpretSelectionCommand, async () => {
+        log('Reinterpret selection command triggered');
+
+        try {
+            const selected = selectedRanges();
+            if (!selected) {
+                return;
+            }
+            const { editor, selections } = selected;
+            const { document } = editor;
+            const encoding = await pickEncoding('Reinterpret the selection as (the encoding its bytes really are in)');
+            if (!encoding) {
+                return;
+            }
+
+            const replacements: { range: vscode.Range; text: string }[] = [];
+            const misreadings = new Set<string>();
+            for (const [i, selection] of selections.entries()) {
+                const text = document.getText(selection);
+                if (text.includes('\ufffd')) {
+                    // The editor only has U+FFFD for these bytes, the file on disk still has them
+                    if (document.uri.scheme !== 'file' || document.isDirty) {
+                        throw new Error('Part of the selection could not be decoded, save the file so its bytes can be read from disk');
+                    }
+                    replacements.push({
+                        range: selection,
+                        text: await engine.reinterpretFileRange(
+                            document.uri.fsPath, document.offsetAt(selection.start), document.offsetAt(selection.end), text, encoding
+                        )
+                    });
+                    misreadings.add('utf-8');
+                    continue;
+                }
+                const reinterpreted = reinterpretText(text, encoding);
+                if (!reinterpreted) {
+                    throw new Error(`Selection ${i + 1} does not read as misdecoded ${encodingChoices.labelFor(encoding)}`);
+                }
+                replacements.push({ range: selection, text: reinterpreted.text });
+                misreadings.add(reinterpreted.misreadAs);
+            }
+
+            if (await replaceAll(editor, replacements)) {
+                const misreadAs = [...misreadings].map(encodingChoices.labelFor).join(', ');
+                vscode.window.showInformationMessage(
+                    `Reinterpreted ${replacements.length} selection(s) as ${encodingChoices.labelFor(encoding)} (read as ${misreadAs})`
+                );
+                await encodingChoices.remember(encoding);
+            }
+        } catch (error) {
+            log(`Command failed: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Reinterpreting the selection failed: ${error}`);
+        }
+    });
+
+    const escape = vscode.commands.registerCommand(escapeSelectionCommand, async () => {
+        log('Escape selection command triggered');
+
+        try {
+            const selected = selectedRanges();
+            if (!selected) {
+                return;
+            }
+            const { editor, selections } = selected;
+            const encoding = await pickEncoding('Escape the characters this encoding cannot represent');
+            if (!encoding) {
+                return;
+            }
+            const style = await vscode.window.showQuickPick<{ label: string; description: string; policy: UnmappablePolicy }>([
+                { label: 'Escape as \\uXXXX', description: 'e.g. \\u00E9', policy: 'escape-unicode' },
+                { label: 'Escape as HTML/XML entities', description: 'e.g. &#xE9;', policy: 'escape-html' }
+            ], {
+                placeHolder: 'How to write the characters'
+            });
+            if (!style) {
+                return;
+            }
+
+            let escaped = 0;
+            const replacements = selections.map(selection => {
+                const result = applyUnmappablePolicy(
+                    editor.document.getText(selection), encoding, style.policy, getConfig().unmappableSubstitute, false
+                );
+                escaped += result.count;
+                return { range: selection, text: result.text };
+            });
+            const label = encodingChoices.labelFor(encoding);
+            if (escaped === 0) {
+                vscode.window.showInformationMessage(`Every selected character can be represented in ${label}`);
+                return;
+            }
+
+            if (await replaceAll(editor, replacements)) {
+                vscode.window.showInformationMessage(`Escaped ${escaped} character(s) that ${label} cannot represent`);
+                await encodingChoices.remember(encoding);
+            }
+        } catch (error) {
+            log(`Command failed: ${error}`, 'error');
+            vscode.window.showErrorMessage(`Escaping the selection failed: ${error}`);
+        }
+    });
+
+    context.subscriptions.push(reinterpret, escape);
+}
@@ -0,0 +1,129 @@
+/**
+ * Status bar indicator for the active editor
+ *
+ * Shows what detectEncoding thinks the file is (encoding, confidence and method)
+ * and opens a small menu of conversion actions on click.
+ */
+
+import * as vscode from 'vscode';
+import { ConversionEngine, EncodingDetection, LogLevel } from './engine';
+
+export const showEncodingMenuCommand = 'extension.showEncodingMenu';
+
+// Below this confidence the indicator is flagged as uncertain
+const lowConfidence = 0.7;
+
+/**
+ * Show a file and open VS Code's reopen-with-encoding picker on it, with the encoding to select
+ * VS Code has no API to reopen with a given encoding, so the choice is left to its own picker
+ */
+export async function reopenWithEncodingPicker(uri: vscode.Uri, encoding: string): Promise<void> {
+    await vscode.window.showTextDocument(uri);
+    vscode.window.setStatusBarMessage(`Select "${encoding}" in the encoding list`, 10000);
+    await vscode.commands.executeCommand('workbench.action.editor.changeEncoding');
+}
+
+/**
+ * Register the status bar item and its menu command
+ */
+export function registerEncodingStatusBar(
+    context: vscode.ExtensionContext,
+    engine: ConversionEngine,
+    log: (message: string, level?: LogLevel) => void
+): { refresh(): Promise<void> } {
+    const item = vscode.window.createStatusBarItem('encodingConverter.detectedEncoding', vscode.StatusBarAlignment.Right, 100);
+    item.name = 'Detected Encoding';
+    item.command = showEncodingMenuCommand;
+
+    let current: { uri: vscode.Uri; detection: EncodingDetection } | undefined;
+
+    // Detection is async, only the latest request may update the item
+    let refreshGeneration = 0;
+
+    /**
+     * Detect the active editor's file and update the item
+     */
+    async function refresh(): Promise<void> {
+        const generation = ++refreshGeneration;
+        const editor = vscode.window.activeTextEditor;
+
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            current = undefined;
+            item.hide();
+            return;
+        }
+
+        const uri = editor.document.uri;
+        const detection = await engine.detectEncoding(uri.fsPath);
+        if (generation !== refreshGeneration) {
+            return;
+        }
+
+        current = { uri, detection };
+        const percent = `${(detection.confidence * 100).toFixed(0)}%`;
+        const uncertain = detection.confidence < lowConfidence;
+
+        item.text = `${uncertain ? '$(warning)' : '$(file-code)'} ${detection.encoding.toUpperCase()} ${percent} (${detection.method})`;
+        const candidates = detection.candidates && detection.candidates.length > 1
+            ? `\n\nCandidates:\n${detection.candidates.map(c => `${c.encoding.toUpperCase()} ${(c.score * 100).toFixed(0)}%: ${c.reasons.join(', ')}`).join('\n')}`
+            : '';
+        item.tooltip = `Detected encoding: ${detection.encoding.toUpperCase()}\n` +
+            `Confidence: ${percent}${uncertain ? ' (low, detection may be wrong)' : ''}\n` +
+            `Method: ${detection.method}${candidates}\n\nClick for conversion options`;
+        item.backgroundColor = uncertain ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+        item.show();
+    }
+
+    const showMenu = vscode.commands.registerCommand(showEncodingMenuCommand, async () => {
+        if (!current) {
+            return;
+        }
+        const { uri, detection } = current;
+        const detected = detection.encoding.toUpperCase();
+
+        const choice = await vscode.window.showQuickPick([
+            { label: '$(arrow-right) Convert to UTF-8', description: `from ${detected}`, action: 'utf8' },
+            { label: '$(arrow-swap) Convert to...', description: 'Select source and target encodings', action: 'between' },
+            { label: '$(refresh) Reopen with detected encoding', description: detected, action: 'reopen' }
+        ], {
+            placeHolder: `Detected ${detected} (${(detection.confidence * 100).toFixed(1)}% confidence, ${detection.method})`
+        });
+
+        if (!choice) {
+            return;
+        }
+
+        switch (choice.action) {
+            case 'utf8':
+                await vscode.commands.executeCommand('extension.convertToUTF8', uri);
+                break;
+            case 'between':
+                await vscode.commands.executeCommand('extension.convertBetweenEncodings', uri);
+                break;
+            case 'reopen':
+                log(`Reopening ${uri.fsPath} with encoding picker (detected ${detected})`);
+                await reopenWithEncodingPicker(uri, detected);
+                break;
+        }
+        await refresh();
+    });
+
+    const refreshInBackground = () => {
+        refresh().catch(error => log(`Status bar refresh failed: ${error}`, 'warn'));
+    };
+
+    context.subscriptions.push(
+        item,
+        showMenu,
+        vscode.window.onDidChangeActiveTextEditor(refreshInBackground),
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (document === vscode.window.activeTextEditor?.document) {
+                refreshInBackground();
+            }
+        })
+    );
+
+    refreshInBackground();
+
+    return { refresh };
+}